@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import {
+  isTranscriptionMode,
+  type TranscriptionMode,
+} from './modules/chatSettings.js';
+import { transcribeAudio } from './modules/aiService.js';
+import { renderTranscriptFile } from './modules/formatter.js';
+import { isMediaFileName, prepareAudioFile } from './modules/mediaPipeline.js';
+import { renderSrt } from './modules/subtitles.js';
+import type { TranscriptionResult } from './modules/transcriptionProviders.js';
+import { log, mapWithConcurrency } from './modules/utils.js';
+
+const usage = `Usage: voiceoverbot transcribe <files or directories...> [options]
+
+Options:
+  --format txt|json|srt   Output format (default: txt)
+  --mode <mode>           clean, verbatim, notes or actions (default: clean)
+  --language <code>       ISO 639-1 code of the spoken language
+  --translate <code>      Also translate transcripts in other languages
+  --concurrency <n>       Files transcribed at once (default: 2)
+  --force                 Overwrite existing outputs
+
+Results are written next to the inputs, e.g. talk.mp3 -> talk.txt.`;
+
+type OutputFormat = 'txt' | 'json' | 'srt';
+
+interface CliOptions {
+  inputs: string[];
+  format: OutputFormat;
+  mode: TranscriptionMode;
+  languageHint: string | null;
+  translateTo: string | null;
+  concurrency: number;
+  force: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(2);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (command !== 'transcribe') fail(`Unknown command: ${command || '(none)'}`);
+
+  const options: CliOptions = {
+    inputs: [],
+    format: 'txt',
+    mode: 'clean',
+    languageHint: null,
+    translateTo: null,
+    concurrency: 2,
+    force: false,
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const value = () => rest[++i] ?? fail(`Missing value for ${arg}`);
+    if (arg === '--format') {
+      const format = value();
+      if (!['txt', 'json', 'srt'].includes(format)) {
+        fail(`Unknown format: ${format}`);
+      }
+      options.format = format as OutputFormat;
+    } else if (arg === '--mode') {
+      const mode = value();
+      if (!isTranscriptionMode(mode)) {
+        fail(`Unknown mode: ${mode}`);
+      }
+      options.mode = mode;
+    } else if (arg === '--language') {
+      options.languageHint = value().toLowerCase();
+    } else if (arg === '--translate') {
+      options.translateTo = value().toLowerCase();
+    } else if (arg === '--concurrency') {
+      options.concurrency = parseInt(value(), 10);
+      if (!(options.concurrency > 0)) fail('--concurrency must be at least 1');
+    } else if (arg === '--force') {
+      options.force = true;
+    } else if (arg.startsWith('--')) {
+      fail(`Unknown option: ${arg}`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+  if (!options.inputs.length) fail('No files given');
+  return options;
+}
+
+/**
+ * Expands directories (recursively) into the media files they contain.
+ */
+function collectFiles(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (!existsSync(input)) {
+      console.error(`Not found: ${input}`);
+      continue;
+    }
+    if (statSync(input).isDirectory()) {
+      const entries = readdirSync(input).sort();
+      files.push(
+        ...collectFiles(
+          entries
+            .filter((entry) => !entry.startsWith('.'))
+            .map((entry) => join(input, entry)),
+        ).filter((file) => isMediaFileName(file)),
+      );
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+function outputPath(file: string, format: OutputFormat) {
+  return join(dirname(file), `${basename(file, extname(file))}.${format}`);
+}
+
+function renderOutput(
+  file: string,
+  result: TranscriptionResult,
+  format: OutputFormat,
+) {
+  if (format === 'json') {
+    return `${JSON.stringify({ file: basename(file), ...result }, null, 2)}\n`;
+  }
+  if (format === 'srt') {
+    if (!result.segments?.length) {
+      throw new Error('The provider returned no timestamped segments');
+    }
+    return renderSrt(result.segments);
+  }
+  return renderTranscriptFile(result, 'txt');
+}
+
+async function transcribeFile(file: string, options: CliOptions) {
+  const target = outputPath(file, options.format);
+  if (!options.force && existsSync(target)) {
+    log(`Skipping ${file}: ${target} already exists`);
+    return 'skipped';
+  }
+  const audio = await prepareAudioFile(file, readFileSync(file));
+  const result = await transcribeAudio(audio.buffer, audio.mimeType, {
+    durationSeconds: audio.durationSeconds,
+    speechSeconds: audio.speechSeconds,
+    startOffsetSeconds: audio.trimmedStartSeconds,
+    translateTo: options.translateTo,
+    settings: {
+      transcriptionMode: options.mode,
+      languageHint: options.languageHint,
+    },
+  });
+  writeFileSync(target, renderOutput(file, result, options.format));
+  log(`Wrote ${target}`);
+  return 'done';
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const files = collectFiles(options.inputs);
+  if (!files.length) fail('No media files found');
+
+  const outcomes = await mapWithConcurrency(
+    files,
+    options.concurrency,
+    async (file) => {
+      try {
+        return await transcribeFile(file, options);
+      } catch (error) {
+        console.error(
+          `Failed to transcribe ${file}: ${(error as Error).message}`,
+        );
+        return 'failed';
+      }
+    },
+  );
+  const count = (outcome: string) =>
+    outcomes.filter((value) => value === outcome).length;
+  log(
+    `Transcribed ${count('done')} of ${files.length} files (${count('skipped')} skipped, ${count('failed')} failed)`,
+  );
+  process.exit(count('failed') ? 1 : 0);
+}
+
+void main();
@@ -1,37 +1,106 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { botToken, geminiModelId } from './modules/config.js';
+import type { Server } from 'http';
+import {
+  botMode,
+  botToken,
+  geminiModelId,
+  httpPort,
+  transcriptionProvider,
+  webhookPath,
+  webhookSecret,
+  webhookUrl,
+} from './modules/config.js';
 import { log } from './modules/utils.js';
 import { initializeTelegramHandlers } from './modules/telegramHandlers.js';
+import { flushAllStores } from './modules/jsonStore.js';
+import { startHttpServer } from './modules/httpServer.js';
 
-const bot = new TelegramBot(botToken as string, { polling: true });
+// Checked here rather than in config.ts so the CLI runs without them
+if (!botToken) {
+  console.error('BOT_TOKEN is missing from .env');
+  process.exit(1);
+}
+if (botMode === 'webhook' && !webhookUrl) {
+  console.error('WEBHOOK_URL is required when BOT_MODE=webhook');
+  process.exit(1);
+}
+// Without it anyone who finds the webhook path could forge updates
+if (botMode === 'webhook' && !webhookSecret) {
+  console.error('WEBHOOK_SECRET is required when BOT_MODE=webhook');
+  process.exit(1);
+}
 
-initializeTelegramHandlers(bot);
-log(`Bot is starting... Model: ${geminiModelId}`);
+const bot = new TelegramBot(botToken, { polling: false });
+let ready = false;
+let server: Server | undefined;
 
-process.on('SIGTERM', async () => {
-  log('SIGTERM signal received. Shutting down gracefully...');
-  try {
-    if (bot.isPolling()) {
-      await bot.stopPolling({ cancel: true });
-      log('Bot polling stopped.');
-    }
-    process.exit(0);
-  } catch (e) {
-    log(`Error during SIGTERM shutdown: ${(e as Error).message}`);
-    process.exit(1);
+void initializeTelegramHandlers(bot).then(() => {
+  ready = true;
+});
+log(
+  `Bot is starting in ${botMode} mode... Provider: ${transcriptionProvider}, Model: ${geminiModelId}`,
+);
+
+// Resolves once the server listens, so Telegram is never sent to a
+// webhook nothing answers
+const serverStarted = httpPort
+  ? startHttpServer({
+      port: httpPort,
+      isReady: () => ready,
+      webhook:
+        botMode === 'webhook' && webhookSecret
+          ? {
+              path: webhookPath,
+              secretToken: webhookSecret,
+              onUpdate: (update) => bot.processUpdate(update),
+            }
+          : undefined,
+    }).then((started) => {
+      server = started;
+      started.on('error', (error) => {
+        log(`HTTP server failed: ${error.message}`);
+        process.exit(1);
+      });
+    })
+  : Promise.resolve();
+
+async function start() {
+  await serverStarted;
+  if (botMode === 'webhook') {
+    const url = new URL(webhookPath, webhookUrl).toString();
+    await bot.setWebHook(url, { secret_token: webhookSecret });
+    log(`Webhook registered at ${url}`);
+  } else {
+    // A webhook left over from webhook mode would make getUpdates fail
+    await bot.deleteWebHook();
+    await bot.startPolling();
+    log('Bot polling started.');
   }
+}
+
+start().catch((e) => {
+  log(`Failed to start the bot: ${(e as Error).message}`);
+  process.exit(1);
 });
 
-process.on('SIGINT', async () => {
-  log('SIGINT signal received. Shutting down gracefully...');
+async function shutdown(signal: string) {
+  log(`${signal} signal received. Shutting down gracefully...`);
   try {
     if (bot.isPolling()) {
       await bot.stopPolling({ cancel: true });
       log('Bot polling stopped.');
     }
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      log('HTTP server stopped.');
+    }
+    flushAllStores();
     process.exit(0);
   } catch (e) {
-    log(`Error during SIGINT shutdown: ${(e as Error).message}`);
+    log(`Error during ${signal} shutdown: ${(e as Error).message}`);
     process.exit(1);
   }
-});
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,108 @@
+import type { Chat } from 'node-telegram-bot-api';
+import { accessMode, allowedIds, deniedIds, ownerUserId } from './config.js';
+import { createJsonStore } from './jsonStore.js';
+
+/** A chat the bot has seen a message from, for /chats. */
+export interface KnownChat {
+  id: number;
+  title?: string;
+  type: Chat['type'];
+  lastSeenAt: number;
+  /** Set once the bot has left the chat. */
+  leftAt?: number;
+}
+
+interface AccessData {
+  /** IDs added with /allow; users are positive, groups negative. */
+  allowed: number[];
+  /** IDs added with /deny. */
+  denied: number[];
+  chats: Record<string, KnownChat>;
+}
+
+/**
+ * What to do with a message: handle it, refuse the whole chat (and leave
+ * it), or ignore a denied user in an otherwise allowed chat.
+ */
+export type AccessDecision = 'allow' | 'refuse_chat' | 'ignore_user';
+
+const store = createJsonStore<AccessData>('access.json', () => ({
+  allowed: [],
+  denied: [],
+  chats: {},
+}));
+
+export function isOwner(userId: number | undefined) {
+  return ownerUserId !== null && userId === ownerUserId;
+}
+
+export function isDenied(id: number) {
+  return deniedIds.includes(id) || store.data.denied.includes(id);
+}
+
+export function isAllowed(id: number) {
+  return (
+    !isDenied(id) &&
+    (allowedIds.includes(id) || store.data.allowed.includes(id))
+  );
+}
+
+/**
+ * Decides whether the bot serves `userId` in `chat`. The owner is always
+ * served; in a private chat the chat ID is the user's ID.
+ */
+export function accessDecision(
+  chat: Pick<Chat, 'id' | 'type'>,
+  userId: number | undefined,
+): AccessDecision {
+  if (isOwner(userId)) return 'allow';
+  if (isDenied(chat.id)) return 'refuse_chat';
+  if (userId && isDenied(userId)) {
+    return chat.type === 'private' ? 'refuse_chat' : 'ignore_user';
+  }
+  if (accessMode === 'open' || isAllowed(chat.id)) return 'allow';
+  return 'refuse_chat';
+}
+
+/** Adds `id` to the allowlist, removing it from the denylist. */
+export function allowId(id: number) {
+  store.data.denied = store.data.denied.filter((denied) => denied !== id);
+  if (!store.data.allowed.includes(id)) store.data.allowed.push(id);
+  store.save();
+}
+
+/** Adds `id` to the denylist, removing it from the allowlist. */
+export function denyId(id: number) {
+  store.data.allowed = store.data.allowed.filter((allowed) => allowed !== id);
+  if (!store.data.denied.includes(id)) store.data.denied.push(id);
+  store.save();
+}
+
+export function rememberChat(chat: Chat) {
+  const known = store.data.chats[String(chat.id)];
+  store.data.chats[String(chat.id)] = {
+    id: chat.id,
+    title:
+      chat.title ||
+      [chat.first_name, chat.last_name].filter(Boolean).join(' ') ||
+      chat.username ||
+      known?.title,
+    type: chat.type,
+    lastSeenAt: Date.now(),
+  };
+  store.save();
+}
+
+export function markChatLeft(chatId: number) {
+  const known = store.data.chats[String(chatId)];
+  if (!known) return;
+  known.leftAt = Date.now();
+  store.save();
+}
+
+/** Known chats, most recently active first. */
+export function knownChats(): KnownChat[] {
+  return Object.values(store.data.chats).sort(
+    (a, b) => b.lastSeenAt - a.lastSeenAt,
+  );
+}
@@ -0,0 +1,227 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Chat, Message } from 'node-telegram-bot-api';
+import {
+  accessDecision,
+  allowId,
+  denyId,
+  isAllowed,
+  isDenied,
+  isOwner,
+  knownChats,
+  markChatLeft,
+  rememberChat,
+} from './accessControl.js';
+import { accessMode } from './config.js';
+import { escapeHtml } from './formatter.js';
+import { localeFor, resolveLocale, t } from './i18n.js';
+import { log } from './utils.js';
+
+// Private chats can't be left, so they are reminded at most this often.
+const PRIVATE_REFUSAL_INTERVAL_MS = 60 * 60 * 1000;
+const CHATS_LISTED = 50;
+
+const leaving = new Set<number>();
+const privateRefusedAt = new Map<number, number>();
+
+async function leaveChat(bot: TelegramBot, chatId: number) {
+  try {
+    await bot.leaveChat(chatId);
+    log(`Left chat ${chatId}`);
+  } finally {
+    markChatLeft(chatId);
+  }
+}
+
+/**
+ * Politely refuses an unauthorized chat and leaves it. Private chats get
+ * the refusal (with the user's ID to pass to the owner) once an hour.
+ */
+async function refuseChat(bot: TelegramBot, chat: Chat, languageCode?: string) {
+  const locale = resolveLocale(chat.id, languageCode);
+  if (chat.type === 'private') {
+    const refusedAt = privateRefusedAt.get(chat.id) || 0;
+    if (Date.now() - refusedAt < PRIVATE_REFUSAL_INTERVAL_MS) return;
+    privateRefusedAt.set(chat.id, Date.now());
+    await bot.sendMessage(
+      chat.id,
+      t(locale, 'refusePrivate', { userId: chat.id }),
+    );
+    return;
+  }
+
+  if (leaving.has(chat.id)) return;
+  leaving.add(chat.id);
+  try {
+    log(`Refusing unauthorized chat ${chat.id} (${chat.title || chat.type})`);
+    await bot
+      .sendMessage(chat.id, t(locale, 'refuseGroup'))
+      .catch((error) =>
+        log(
+          `Failed to send refusal to chat ${chat.id}: ${(error as Error).message}`,
+        ),
+      );
+    await leaveChat(bot, chat.id);
+  } finally {
+    leaving.delete(chat.id);
+  }
+}
+
+/**
+ * Checks a message against the access lists. Unauthorized chats are
+ * refused (and left); messages from denied users are ignored. Returns
+ * whether the message may be handled.
+ */
+export async function admitMessage(
+  bot: TelegramBot,
+  msg: Message,
+): Promise<boolean> {
+  rememberChat(msg.chat);
+  const decision = accessDecision(msg.chat, msg.from?.id);
+  if (decision === 'refuse_chat') {
+    try {
+      await refuseChat(bot, msg.chat, msg.from?.language_code);
+    } catch (error) {
+      log(`Failed to refuse chat ${msg.chat.id}: ${(error as Error).message}`);
+    }
+  }
+  return decision === 'allow';
+}
+
+/**
+ * Checks a chat the bot was just added to. In allowlist mode a group
+ * added by the owner or an allowed user is allowed along with them.
+ * Returns whether the bot stays.
+ */
+export async function admitNewChat(
+  bot: TelegramBot,
+  chat: Chat,
+  addedBy: number,
+  languageCode?: string,
+): Promise<boolean> {
+  rememberChat(chat);
+  if (
+    accessMode === 'allowlist' &&
+    !isDenied(chat.id) &&
+    (isOwner(addedBy) || isAllowed(addedBy))
+  ) {
+    allowId(chat.id);
+  }
+  if (accessDecision(chat, undefined) === 'allow') return true;
+  await refuseChat(bot, chat, languageCode);
+  return false;
+}
+
+function describeId(id: number, locale: string) {
+  return t(locale, id < 0 ? 'accessChat' : 'accessUser', { id });
+}
+
+/**
+ * Target of an admin command: the ID given as argument, else the sender
+ * of the replied-to message, else the current chat.
+ */
+function commandTarget(msg: Message, args: string): number | null {
+  if (args.trim()) {
+    const id = parseInt(args.trim(), 10);
+    return Number.isNaN(id) ? null : id;
+  }
+  return msg.reply_to_message?.from?.id ?? msg.chat.id;
+}
+
+function renderKnownChats(locale: string) {
+  const chats = knownChats().slice(0, CHATS_LISTED);
+  if (!chats.length) return t(locale, 'chatsNone');
+  const lines = [t(locale, 'chatsTitle', { mode: accessMode })];
+  for (const chat of chats) {
+    const status = t(
+      locale,
+      isDenied(chat.id)
+        ? 'chatStatusDenied'
+        : isAllowed(chat.id)
+          ? 'chatStatusAllowed'
+          : accessMode === 'open'
+            ? 'chatStatusOpen'
+            : 'chatStatusNotAllowed',
+    );
+    lines.push(
+      t(locale, 'chatsLine', {
+        chat: `<code>${chat.id}</code> ${escapeHtml(chat.title || chat.type)}`,
+        status: chat.leftAt ? t(locale, 'chatStatusLeft', { status }) : status,
+        date: new Date(chat.lastSeenAt).toISOString().slice(0, 10),
+      }),
+    );
+  }
+  return lines.join('\n');
+}
+
+async function handleAccessCommand(
+  bot: TelegramBot,
+  msg: Message,
+  command: 'allow' | 'deny' | 'chats' | 'leave',
+  args: string,
+) {
+  const chatId = msg.chat.id;
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(chatId, text, {
+      parse_mode: 'HTML',
+      reply_to_message_id: msg.message_id,
+    });
+
+  if (!isOwner(msg.from?.id)) {
+    await reply(t(locale, 'ownerOnly'));
+    return;
+  }
+  if (command === 'chats') {
+    await reply(renderKnownChats(locale));
+    return;
+  }
+
+  const target = commandTarget(msg, args);
+  if (target === null) {
+    await reply(t(locale, 'accessUsage', { command }));
+    return;
+  }
+  const described = describeId(target, locale);
+  if (command === 'allow') {
+    allowId(target);
+    await reply(t(locale, 'accessAllowed', { target: described }));
+  } else if (command === 'deny') {
+    if (isOwner(target)) {
+      await reply(t(locale, 'accessOwnerNotDenied'));
+      return;
+    }
+    denyId(target);
+    await reply(t(locale, 'accessDenied', { target: described }));
+    if (target < 0) await leaveChat(bot, target);
+  } else {
+    if (target > 0) {
+      await reply(t(locale, 'accessPrivateLeave'));
+      return;
+    }
+    if (target !== chatId) {
+      await reply(t(locale, 'accessLeaving', { target: described }));
+    }
+    await leaveChat(bot, target);
+  }
+}
+
+/**
+ * Registers the owner's access control commands: /allow and /deny (a user
+ * or chat ID, the replied-to user, or the current chat), /chats and
+ * /leave.
+ */
+export function registerAccessHandlers(bot: TelegramBot) {
+  bot.onText(
+    /^\/(allow|deny|chats|leave)(?:@\w+)?(?:\s+(.*))?$/,
+    async (msg, match) => {
+      const command = match?.[1] as 'allow' | 'deny' | 'chats' | 'leave';
+      try {
+        await handleAccessCommand(bot, msg, command, match?.[2] || '');
+      } catch (error) {
+        log(
+          `Failed to handle /${command} in chat ${msg.chat.id}: ${(error as Error).message}`,
+        );
+      }
+    },
+  );
+}
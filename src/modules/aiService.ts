@@ -1,120 +1,489 @@
-import type { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
-import { google } from '@ai-sdk/google';
-import { generateText, type CoreMessage } from 'ai';
-import { z } from 'zod';
-import { geminiModelId } from './config.js'; // Assuming googleApiKey is used implicitly by the SDK
-import { log } from './utils.js';
-
-const transcriptionSystemPrompt = `You are a highly proficient audio transcription robot. Your primary function is to accurately convert spoken audio from telegram voice messages into written text with correct punctuation, formatting and language preservation.
-
-## Key Instructions
-0.  Do not add anything not related to the transcription / tldr to output, keep it as correct as possible.
-1.  **Language Preservation**: Transcribe the audio in the exact language spoken. Do not translate.
-2.  **Accuracy**: Capture all spoken words precisely.
-3.  **Punctuation and Formatting**: Apply standard punctuation (periods, commas, question marks, capitalization, paragraphs for distinct speakers or long pauses if discernible) to ensure the text is clear, well-structured, and easy to read.
-4.  **No Extraneous Content**: Your output must *only* be the transcribed text. Do not include any introductory phrases (e.g., "Here is the transcription:"), summaries, disclaimers, or any other text that is not part of the direct transcription.
-5.  **Tool Usage**: You MUST use the 'outputTranscription' tool to provide the final transcribed text.
-6.  **Filler Words**: Remove all filler words like "um", "uh", "ah", "er", "like" and same on another languages. If the text is really short, just return the text as is.
-7.  **Points**: If voice message contains some lists, points, etc. Make proper formatting for them.
-  Example:
-  "do this, do that, do the other thing"
-  should be formatted as:
-  "1. Do this
-  2. Do that
-  3. Do the other thing"
-8.  **Numbers**: If voice message contains numbers, make proper formatting for them.
-  Example:
-  "seven thousand, eight hundred, nine" -> "7000, 800, 9"
-9.  **Trailing Characters**: Ensure that no extraneous characters, such as underscores (_) or other non-spoken symbols, are appended to the end of the transcription. The output should end cleanly with the last spoken word or standard punctuation.
-
-## TLDR
-If text is longer than 300 characters, provide a tldr summary of the transcription. The summary MUST:
-1. Use the same language as the transcription
-2. Maintain the same first/third person perspective as the original message
-3. Keep the same tone, style and speaking voice
-4. Be 20-30 words summarizing the general idea 
-5. Be a single sentence, not a list of points
-6. NOT describe the message in third person (like "the user talks about...") - instead, preserve the original voice`;
+import {
+  chunkConcurrency,
+  chunkingThresholdSeconds,
+  chatTranscriptionProviders,
+  transcriptionFallbackProvider,
+  transcriptionProvider,
+} from './config.js';
+import {
+  getAudioDuration,
+  type AudioChunk,
+  mergeChunkSegments,
+  mergeTranscriptParts,
+  splitAudioIntoChunks,
+} from './audioChunking.js';
+import {
+  structuredModes,
+  type ChatSettings,
+  type TranscriptionMode,
+} from './chatSettings.js';
+import type { ProgressCallback } from './progressMessage.js';
+import { errorKind, SilentAudioError, UnsupportedModeError } from './errors.js';
+import { applyGlossary, type Glossary } from './glossary.js';
+import { errorsTotal, modelSeconds, timeAsync } from './metrics.js';
+import { speakerLabels, withSpeakerTurns } from './speakers.js';
+import { log, mapWithConcurrency, retry } from './utils.js';
+import {
+  getTranscriptionProvider,
+  type ChatDigest,
+  type DigestMessage,
+  type ProviderTranscribeOptions,
+  type SummaryDetail,
+  type TranscriptionResult,
+} from './transcriptionProviders.js';
+
+export interface TranscribeOptions {
+  /** Chat the audio came from, used to pick per-chat providers. */
+  chatId?: number | string;
+  /**
+   * Duration reported by Telegram, if known. Saves an ffprobe run when
+   * deciding whether the audio needs to be chunked.
+   */
+  durationSeconds?: number;
+  /** Per-chat settings (see chatSettings.ts); defaults apply when omitted. */
+  settings?: Partial<ChatSettings>;
+  /** Called as transcription moves through chunks and summarizing. */
+  onProgress?: ProgressCallback;
+  /** Seconds of detected speech in the audio (see audioPreprocessing). */
+  speechSeconds?: number;
+  /**
+   * Where the audio starts in the original media, if its start was
+   * trimmed; segment timestamps are shifted back by it.
+   */
+  startOffsetSeconds?: number;
+  /**
+   * The chat's glossary: its terms are passed to the provider as preferred
+   * spellings and its replacement rules are applied to the result.
+   */
+  glossary?: Glossary;
+  /**
+   * Language code to translate the transcript into when it was spoken in
+   * another language (see TranscriptionResult.translation).
+   */
+  translateTo?: string | null;
+}
+
+/**
+ * Returns the ordered list of provider names to try for a chat: the
+ * provider picked in /settings, then the configured chat override (or
+ * deployment default), then the fallback.
+ */
+export function resolveProviderChain(
+  chatId?: number | string,
+  preferredProvider?: string | null,
+): string[] {
+  const primary = (chatId !== undefined &&
+    chatTranscriptionProviders.get(String(chatId))) || [transcriptionProvider];
+  const chain = preferredProvider
+    ? [preferredProvider, ...primary]
+    : [...primary];
+  if (transcriptionFallbackProvider) {
+    chain.push(transcriptionFallbackProvider);
+  }
+  return [...new Set(chain)];
+}
+
+/**
+ * The providers of the chain that can transcribe in `mode`. Throws an
+ * UnsupportedModeError when none can.
+ */
+function providersForMode(chain: string[], mode: TranscriptionMode = 'clean') {
+  const capable = chain.filter(
+    (name) => getTranscriptionProvider(name).modes?.includes(mode) ?? true,
+  );
+  if (!capable.length) {
+    throw new UnsupportedModeError(
+      `No transcription provider of ${chain.join(', ')} supports ${mode} mode`,
+    );
+  }
+  return capable;
+}
+
+/**
+ * Transcribes with the first provider in the chain that succeeds. Each
+ * provider call is retried as its error kind allows, so a failed chunk
+ * is sent again on its own.
+ */
+async function transcribeWithFallback(
+  chain: string[],
+  audioBuffer: Buffer,
+  mimeType: string,
+  providerOptions?: ProviderTranscribeOptions,
+): Promise<TranscriptionResult> {
+  let lastError: unknown;
+
+  for (const name of chain) {
+    try {
+      return await retry(
+        () =>
+          timeAsync(
+            modelSeconds,
+            { provider: name, operation: 'transcribe' },
+            () =>
+              getTranscriptionProvider(name).transcribe(
+                audioBuffer,
+                mimeType,
+                providerOptions,
+              ),
+          ),
+        { operation: 'transcribe' },
+      );
+    } catch (error) {
+      lastError = error;
+      errorsTotal.inc({ stage: 'transcribe', class: errorKind(error) });
+      log(
+        `Transcription provider "${name}" failed: ${(error as Error).message}`,
+        { provider: name },
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+async function summarizeWithFallback(
+  chain: string[],
+  text: string,
+  providerOptions?: ProviderTranscribeOptions & { detail?: SummaryDetail },
+): Promise<string | null> {
+  for (const name of chain) {
+    const provider = getTranscriptionProvider(name);
+    if (!provider.summarize) continue;
+    try {
+      return await retry(
+        () =>
+          timeAsync(
+            modelSeconds,
+            { provider: name, operation: 'summarize' },
+            () => provider.summarize!(text, providerOptions),
+          ),
+        { operation: 'summarize' },
+      );
+    } catch (error) {
+      errorsTotal.inc({ stage: 'summarize', class: errorKind(error) });
+      log(
+        `Summarization with provider "${name}" failed: ${(error as Error).message}`,
+      );
+    }
+  }
+  return null;
+}
+
+/** The language most chunks were detected in. */
+function mostCommonLanguage(parts: TranscriptionResult[]) {
+  const counts = new Map<string, number>();
+  for (const { language } of parts) {
+    if (language) counts.set(language, (counts.get(language) || 0) + 1);
+  }
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [language, count] of counts) {
+    if (count > bestCount) [best, bestCount] = [language, count];
+  }
+  return best;
+}
+
+// Labelled lines of the previous chunk given to the next one
+const SPEAKER_CONTEXT_LINES = 6;
+
+/**
+ * The speakers of the chunks transcribed so far and the last lines of
+ * the latest one, or undefined before the first chunk or without labels.
+ */
+function speakerContext(
+  parts: TranscriptionResult[],
+): ProviderTranscribeOptions['speakerContext'] {
+  const speakers = [...new Set(parts.flatMap(speakerLabels))];
+  if (!speakers.length) return undefined;
+  const previousLines = (parts[parts.length - 1].segments || [])
+    .slice(-SPEAKER_CONTEXT_LINES)
+    .map(({ speaker, text }) => `${speaker || speakers[0]}: ${text.trim()}`);
+  return { speakers, previousLines };
+}
+
+/** Joins the notes or action items of every chunk, in order. */
+function mergeStructuredParts(
+  parts: TranscriptionResult[],
+  mode?: TranscriptionMode,
+): Partial<TranscriptionResult> {
+  if (mode === 'notes') {
+    return { notes: parts.flatMap((part) => part.notes || []) };
+  }
+  if (mode === 'actions') {
+    return {
+      actionItems: parts.flatMap((part) => part.actionItems || []),
+      decisions: parts.flatMap((part) => part.decisions || []),
+    };
+  }
+  return {};
+}
+
+/**
+ * Transcribes long audio chunk by chunk (limited by CHUNK_CONCURRENCY),
+ * stitches the parts together and builds the TLDR from the whole text.
+ * Diarized chunks run one at a time, each told the speakers of the ones
+ * before it, so labels match across chunks.
+ */
+async function transcribeInChunks(
+  chain: string[],
+  audioBuffer: Buffer,
+  mimeType: string,
+  durationSeconds: number,
+  providerOptions: ProviderTranscribeOptions,
+  onProgress?: ProgressCallback,
+): Promise<TranscriptionResult> {
+  const chunks = await splitAudioIntoChunks(
+    audioBuffer,
+    mimeType,
+    durationSeconds,
+  );
+
+  const transcribeChunk = (
+    chunk: AudioChunk,
+    previous: TranscriptionResult[],
+  ) => {
+    log(`Transcribing chunk ${chunk.index + 1}/${chunks.length}...`);
+    onProgress?.({
+      stage: 'transcribing',
+      chunk: chunk.index + 1,
+      totalChunks: chunks.length,
+    });
+    return transcribeWithFallback(chain, chunk.buffer, 'audio/mp3', {
+      ...providerOptions,
+      partial: true,
+      speakerContext: speakerContext(previous),
+    });
+  };
+
+  let parts: TranscriptionResult[];
+  if (providerOptions.diarize) {
+    parts = [];
+    for (const chunk of chunks) {
+      parts.push(await transcribeChunk(chunk, parts));
+    }
+  } else {
+    parts = await mapWithConcurrency(chunks, chunkConcurrency, (chunk) =>
+      transcribeChunk(chunk, []),
+    );
+  }
+
+  const transcribedText = mergeTranscriptParts(
+    parts.map((part) => part.transcribedText),
+  );
+  const segments = mergeChunkSegments(
+    chunks,
+    parts.map((part) => part.segments),
+  );
+  let tldr: string | null = null;
+  if (
+    providerOptions.tldrEnabled !== false &&
+    !structuredModes.includes(providerOptions.mode ?? 'clean') &&
+    transcribedText.length > (providerOptions.tldrThreshold ?? 300)
+  ) {
+    onProgress?.({ stage: 'summarizing' });
+    tldr = await summarizeWithFallback(chain, transcribedText, providerOptions);
+  }
+  return {
+    transcribedText,
+    tldr,
+    segments: segments.length ? segments : undefined,
+    ...mergeStructuredParts(parts, providerOptions.mode),
+    language: mostCommonLanguage(parts),
+  };
+}
+
+function toProviderOptions(
+  settings: Partial<ChatSettings>,
+): ProviderTranscribeOptions {
+  return {
+    mode: settings.transcriptionMode,
+    tldrEnabled: settings.tldrEnabled,
+    tldrThreshold: settings.tldrThreshold,
+    languageHint: settings.languageHint,
+    model: settings.model,
+    diarize: settings.diarization,
+  };
+}
 
 export async function transcribeAudio(
   audioBuffer: Buffer,
   mimeType: string = 'audio/ogg', // Default to ogg if not provided, but expect it for documents
-): Promise<{ transcribedText: string; tldr: string | null }> {
-  log(`Starting audio transcription with Gemini for mimeType: ${mimeType}...`);
-
-  return new Promise<{ transcribedText: string; tldr: string | null }>(
-    async (resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error('Transcription timed out after 60 seconds')); // This 60000 should be configurable
-      }, 60000);
-
-      try {
-        const userMessageContent: CoreMessage = {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Transcribe the audio and provide the result using the outputTranscription tool.',
-            },
-            {
-              type: 'file',
-              mimeType: mimeType, // Use the passed mimeType
-              data: audioBuffer,
-            },
-          ],
-        };
-
-        await generateText({
-          model: google(geminiModelId),
-          providerOptions: {
-            google: {
-              thinkingConfig: {
-                thinkingBudget: 1024,
-                includeThoughts: false,
-              },
-              responseModalities: ['TEXT'],
-            } satisfies GoogleGenerativeAIProviderOptions,
-          },
-          system: transcriptionSystemPrompt,
-          messages: [userMessageContent],
-          toolChoice: { type: 'tool', toolName: 'outputTranscription' },
-          tools: {
-            outputTranscription: {
-              description:
-                "Outputs the final transcribed text from the audio, ensuring it's well-formatted and in the original language.",
-              parameters: z.object({
-                transcribedText: z
-                  .string()
-                  .describe(
-                    'The complete and accurately transcribed text from the audio, in the original language, with proper punctuation.',
-                  ),
-                tldr: z
-                  .string()
-                  .nullable()
-                  .describe(
-                    'A short summary of the transcription, in the original language, with proper punctuation (Optional).',
-                  ),
-              }),
-              execute: async ({
-                transcribedText,
-                tldr,
-              }: {
-                transcribedText: string;
-                tldr: string | null;
-              }) => {
-                log('Transcription tool executed by AI.');
-                clearTimeout(timeoutId);
-                resolve({ transcribedText, tldr });
-                return 'Transcription successfully processed and extracted.';
-              },
-            },
-          },
-        });
-      } catch (error) {
-        log(`Error during transcription: ${(error as Error).message}`);
-        clearTimeout(timeoutId);
-        reject(error);
-      }
-    },
+  options: TranscribeOptions = {},
+): Promise<TranscriptionResult> {
+  const { settings = {} } = options;
+  const chain = providersForMode(
+    resolveProviderChain(options.chatId, settings.provider),
+    settings.transcriptionMode,
   );
+  const providerOptions: ProviderTranscribeOptions = {
+    ...toProviderOptions(settings),
+    vocabulary: options.glossary?.terms,
+  };
+  let durationSeconds = options.durationSeconds;
+  if (durationSeconds === undefined) {
+    try {
+      durationSeconds = await getAudioDuration(audioBuffer, mimeType);
+    } catch (error) {
+      // Not fatal: the provider may still cope with the file as a whole.
+      log(`Could not determine audio duration: ${(error as Error).message}`);
+      durationSeconds = 0;
+    }
+  }
+
+  let result: TranscriptionResult;
+  if (durationSeconds > chunkingThresholdSeconds) {
+    result = await transcribeInChunks(
+      chain,
+      audioBuffer,
+      mimeType,
+      durationSeconds,
+      providerOptions,
+      options.onProgress,
+    );
+  } else {
+    options.onProgress?.({ stage: 'transcribing' });
+    result = await transcribeWithFallback(chain, audioBuffer, mimeType, {
+      ...providerOptions,
+      durationSeconds: durationSeconds || undefined,
+      speechSeconds: options.speechSeconds,
+    });
+    if (settings.tldrEnabled === false) result = { ...result, tldr: null };
+  }
+  if (!result.transcribedText.trim()) {
+    throw new SilentAudioError('The model heard no speech in the audio');
+  }
+  const offset = options.startOffsetSeconds;
+  if (offset && result.segments) {
+    result = {
+      ...result,
+      segments: result.segments.map((segment) => ({
+        ...segment,
+        start: segment.start + offset,
+        end: segment.end + offset,
+      })),
+    };
+  }
+  if (settings.diarization) result = withSpeakerTurns(result);
+  if (options.glossary) result = applyGlossary(result, options.glossary);
+  return options.translateTo
+    ? withTranslation(result, options.translateTo, options)
+    : result;
+}
+
+/**
+ * Adds the translation into `targetLanguage` when the transcript was
+ * detected in another language. A failed translation is logged and
+ * leaves the transcript as it is.
+ */
+async function withTranslation(
+  result: TranscriptionResult,
+  targetLanguage: string,
+  options: TranscribeOptions,
+): Promise<TranscriptionResult> {
+  if (!result.language || result.language === targetLanguage) return result;
+  options.onProgress?.({ stage: 'translating' });
+  try {
+    const text = await translateTranscript(
+      result.transcribedText,
+      targetLanguage,
+      { chatId: options.chatId, settings: options.settings },
+    );
+    return { ...result, translation: { language: targetLanguage, text } };
+  } catch (error) {
+    log(
+      `Could not translate the transcript into ${targetLanguage}: ${(error as Error).message}`,
+    );
+    return result;
+  }
+}
+
+/**
+ * Summarizes an existing transcript at the requested length, e.g. for
+ * the "Summary +/-" buttons. Returns null if no provider can summarize.
+ */
+export async function summarizeTranscript(
+  text: string,
+  detail: SummaryDetail,
+  options: Omit<TranscribeOptions, 'durationSeconds'> = {},
+): Promise<string | null> {
+  const { settings = {} } = options;
+  const chain = resolveProviderChain(options.chatId, settings.provider);
+  return summarizeWithFallback(chain, text, {
+    ...toProviderOptions(settings),
+    detail,
+  });
+}
+
+/**
+ * Translates an existing transcript into the target language (a
+ * language code or name). Throws if no provider in the chain can.
+ */
+export async function translateTranscript(
+  text: string,
+  targetLanguage: string,
+  options: Omit<TranscribeOptions, 'durationSeconds'> = {},
+): Promise<string> {
+  const { settings = {} } = options;
+  const chain = resolveProviderChain(options.chatId, settings.provider);
+  let lastError: unknown = new Error('No provider supports translation');
+
+  for (const name of chain) {
+    const provider = getTranscriptionProvider(name);
+    if (!provider.translate) continue;
+    try {
+      return await retry(
+        () =>
+          timeAsync(
+            modelSeconds,
+            { provider: name, operation: 'translate' },
+            () =>
+              provider.translate!(
+                text,
+                targetLanguage,
+                toProviderOptions(settings),
+              ),
+          ),
+        { operation: 'translate' },
+      );
+    } catch (error) {
+      lastError = error;
+      errorsTotal.inc({ stage: 'translate', class: errorKind(error) });
+      log(
+        `Translation with provider "${name}" failed: ${(error as Error).message}`,
+      );
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Builds a topic digest of many transcribed messages, e.g. for /summary.
+ * Throws if no provider in the chain can.
+ */
+export async function digestMessages(
+  messages: DigestMessage[],
+  options: Omit<TranscribeOptions, 'durationSeconds'> = {},
+): Promise<ChatDigest> {
+  const { settings = {} } = options;
+  const chain = resolveProviderChain(options.chatId, settings.provider);
+  let lastError: unknown = new Error('No provider supports digests');
+
+  for (const name of chain) {
+    const provider = getTranscriptionProvider(name);
+    if (!provider.digest) continue;
+    try {
+      return await retry(
+        () =>
+          timeAsync(modelSeconds, { provider: name, operation: 'digest' }, () =>
+            provider.digest!(messages, toProviderOptions(settings)),
+          ),
+        { operation: 'digest' },
+      );
+    } catch (error) {
+      lastError = error;
+      errorsTotal.inc({ stage: 'digest', class: errorKind(error) });
+      log(`Digest with provider "${name}" failed: ${(error as Error).message}`);
+    }
+  }
+  throw lastError;
 }
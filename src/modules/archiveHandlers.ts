@@ -0,0 +1,179 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Chat, Message } from 'node-telegram-bot-api';
+import { accessDecision } from './accessControl.js';
+import {
+  purgeHistory,
+  recentHistory,
+  type HistoryEntry,
+} from './chatHistory.js';
+import { getChatSettings } from './chatSettings.js';
+import { escapeHtml } from './formatter.js';
+import { localeFor, t } from './i18n.js';
+import { forgetChatCache } from './transcriptCache.js';
+import { forgetChatTranscripts } from './transcriptStore.js';
+import { searchTranscripts } from './transcriptSearch.js';
+import { isChatAdmin, log } from './utils.js';
+
+const SEARCH_RESULTS = 8;
+
+/**
+ * Link to a message, for chats that have one: public chats by username,
+ * supergroups and channels by their internal ID (members only).
+ */
+function messageLink(chat: Chat, messageId: number): string | null {
+  if (chat.username) return `https://t.me/${chat.username}/${messageId}`;
+  const id = String(chat.id);
+  return id.startsWith('-100')
+    ? `https://t.me/c/${id.slice(4)}/${messageId}`
+    : null;
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+function renderSearchResults(chat: Chat, query: string, locale: string) {
+  const { total, results } = searchTranscripts(chat.id, query, SEARCH_RESULTS);
+  if (!total) return t(locale, 'searchNothing', { query: escapeHtml(query) });
+
+  const heading = t(locale, 'searchFound', { query: escapeHtml(query), total });
+  const lines = [
+    total > results.length
+      ? `${heading} ${t(locale, 'searchShowing', { shown: results.length })}`
+      : heading,
+  ];
+  for (const { entry, snippet } of results) {
+    const label = `${formatTime(entry.sentAt)} · ${escapeHtml(entry.senderName)}`;
+    const link = messageLink(chat, entry.messageId);
+    lines.push(
+      '',
+      link ? `<a href="${link}">${label}</a>` : `<b>${label}</b>`,
+      snippet,
+    );
+  }
+  return lines.join('\n');
+}
+
+function renderMarkdownExport(chat: Chat, entries: HistoryEntry[]) {
+  const title = chat.title || chat.username || String(chat.id);
+  const sections = entries.map((entry) => {
+    const link = messageLink(chat, entry.messageId);
+    const heading = `## ${formatTime(entry.sentAt)} UTC · ${entry.senderName}`;
+    return `${heading}\n\n${link ? `[Original message](${link})\n\n` : ''}${entry.text}\n`;
+  });
+  return `# Transcripts of ${title}\n\n${sections.join('\n')}`;
+}
+
+function renderJsonExport(chat: Chat, entries: HistoryEntry[]) {
+  return `${JSON.stringify(
+    {
+      chatId: chat.id,
+      title: chat.title,
+      exportedAt: new Date().toISOString(),
+      transcripts: entries.map((entry) => ({
+        messageId: entry.messageId,
+        senderId: entry.senderId,
+        sender: entry.senderName,
+        sentAt: new Date(entry.sentAt).toISOString(),
+        kind: entry.kind,
+        text: entry.text,
+        link: messageLink(chat, entry.messageId),
+      })),
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+async function handleArchiveCommand(
+  bot: TelegramBot,
+  msg: Message,
+  command: 'search' | 'export' | 'purge',
+  args: string,
+) {
+  const chat = msg.chat;
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(chat.id, text, {
+      parse_mode: 'HTML',
+      reply_to_message_id: msg.message_id,
+      disable_web_page_preview: true,
+    });
+
+  if (command === 'search') {
+    if (!args.trim()) {
+      await reply(t(locale, 'searchUsage'));
+      return;
+    }
+    await reply(renderSearchResults(chat, args.trim(), locale));
+    return;
+  }
+
+  if (command === 'export') {
+    const format = args.trim().toLowerCase() || 'md';
+    if (format !== 'md' && format !== 'json') {
+      await reply(t(locale, 'exportUsage'));
+      return;
+    }
+    const entries = recentHistory(chat.id);
+    if (!entries.length) {
+      await reply(t(locale, 'exportEmpty'));
+      return;
+    }
+    const content =
+      format === 'json'
+        ? renderJsonExport(chat, entries)
+        : renderMarkdownExport(chat, entries);
+    await bot.sendDocument(
+      chat.id,
+      Buffer.from(content, 'utf8'),
+      { reply_to_message_id: msg.message_id },
+      {
+        filename: `transcripts-${chat.id}.${format}`,
+        contentType: format === 'json' ? 'application/json' : 'text/markdown',
+      },
+    );
+    return;
+  }
+
+  if (!(await isChatAdmin(bot, chat, msg.from?.id))) {
+    await reply(t(locale, 'purgeAdminOnly'));
+    return;
+  }
+  if (args.trim().toLowerCase() !== 'confirm') {
+    const count = recentHistory(chat.id).length;
+    const days = getChatSettings(chat.id).historyRetentionDays;
+    await reply(
+      `${t(locale, 'purgeConfirm', { count })}\n\n${
+        days
+          ? t(locale, 'purgeRetentionDays', { days })
+          : t(locale, 'purgeRetentionFull')
+      }`,
+    );
+    return;
+  }
+  const count = purgeHistory(chat.id);
+  forgetChatTranscripts(chat.id);
+  forgetChatCache(chat.id);
+  log(`Purged ${count} transcripts of chat ${chat.id} by ${msg.from?.id}`);
+  await reply(t(locale, 'purgeDone', { count }));
+}
+
+/**
+ * Registers the transcript archive commands: /search, /export and /purge.
+ */
+export function registerArchiveHandlers(bot: TelegramBot) {
+  bot.onText(
+    /^\/(search|export|purge)(?:@\w+)?(?:\s+([\s\S]*))?$/,
+    async (msg, match) => {
+      if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+      const command = match?.[1] as 'search' | 'export' | 'purge';
+      try {
+        await handleArchiveCommand(bot, msg, command, match?.[2] || '');
+      } catch (error) {
+        log(
+          `Failed to handle /${command} in chat ${msg.chat.id}: ${(error as Error).message}`,
+        );
+      }
+    },
+  );
+}
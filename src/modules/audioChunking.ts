@@ -0,0 +1,240 @@
+import { writeFileSync } from 'fs';
+import { detectSilences, type SilenceInterval } from './audioPreprocessing.js';
+import { chunkOverlapSeconds, chunkTargetSeconds } from './config.js';
+import { ffmpegSeconds, timeAsync } from './metrics.js';
+import type { TranscriptSegment } from './transcriptionProviders.js';
+import {
+  log,
+  convertToSpeechMp3,
+  createTempFilePath,
+  extensionForMimeType,
+  probeDuration,
+  removeTempFile,
+} from './utils.js';
+
+export interface AudioChunk {
+  index: number;
+  /** Where the chunk's audio starts, including the overlap. */
+  startSeconds: number;
+  /** Where the chunk's own part starts, after the overlap with the previous one. */
+  boundarySeconds: number;
+  durationSeconds: number;
+  buffer: Buffer;
+}
+
+// Longest run of words we look for when stitching two chunks together.
+const MAX_SEAM_WORDS = 40;
+// Leading words of a chunk that may be a half-cut word from the overlap.
+const MAX_SEAM_SKIP = 3;
+// Shortest word that counts as an overlap on its own; shorter ones ("a",
+// "the") are too often said twice in a row.
+const MIN_SINGLE_SEAM_WORD_LENGTH = 4;
+
+/**
+ * Picks split points close to every `targetSeconds`, preferring the middle
+ * of a silent interval so chunks don't cut through words.
+ */
+export function planSplitPoints(
+  totalSeconds: number,
+  silences: SilenceInterval[],
+  targetSeconds: number,
+): number[] {
+  const points: number[] = [];
+  const minLength = targetSeconds * 0.7;
+  const maxLength = targetSeconds * 1.2;
+  let chunkStart = 0;
+
+  while (totalSeconds - chunkStart > maxLength) {
+    const ideal = chunkStart + targetSeconds;
+    let best: number | null = null;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      if (middle < chunkStart + minLength || middle > chunkStart + maxLength) {
+        continue;
+      }
+      if (best === null || Math.abs(middle - ideal) < Math.abs(best - ideal)) {
+        best = middle;
+      }
+    }
+    const point = best ?? ideal;
+    points.push(point);
+    chunkStart = point;
+  }
+
+  return points;
+}
+
+/**
+ * Splits long audio into speech-friendly MP3 chunks. Every chunk after the
+ * first starts `CHUNK_OVERLAP_SECONDS` early so words at a cut are not lost;
+ * mergeTranscriptParts removes the duplicated text afterwards.
+ */
+export async function splitAudioIntoChunks(
+  audioBuffer: Buffer,
+  mimeType: string,
+  knownDurationSeconds?: number,
+): Promise<AudioChunk[]> {
+  const tempPath = createTempFilePath(
+    'chunk_source',
+    extensionForMimeType(mimeType),
+  );
+
+  try {
+    writeFileSync(tempPath, audioBuffer);
+    const totalSeconds =
+      knownDurationSeconds || (await probeDuration(tempPath));
+    const silences = await timeAsync(
+      ffmpegSeconds,
+      { operation: 'silencedetect' },
+      () => detectSilences(tempPath, totalSeconds),
+    );
+    const splitPoints = planSplitPoints(
+      totalSeconds,
+      silences,
+      chunkTargetSeconds,
+    );
+    const boundaries = [0, ...splitPoints, totalSeconds];
+
+    log(
+      `Splitting ${totalSeconds.toFixed(1)}s of audio into ${boundaries.length - 1} chunks (${silences.length} silences detected)`,
+    );
+
+    const chunks: AudioChunk[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const startSeconds = Math.max(0, boundaries[i] - chunkOverlapSeconds);
+      const durationSeconds = boundaries[i + 1] - startSeconds;
+      const buffer = await convertToSpeechMp3(tempPath, {
+        startSeconds,
+        durationSeconds,
+      });
+      chunks.push({
+        index: i,
+        startSeconds,
+        boundarySeconds: boundaries[i],
+        durationSeconds,
+        buffer,
+      });
+    }
+    return chunks;
+  } finally {
+    removeTempFile(tempPath);
+  }
+}
+
+/**
+ * Returns the duration of an in-memory audio buffer in seconds.
+ */
+export async function getAudioDuration(
+  audioBuffer: Buffer,
+  mimeType: string,
+): Promise<number> {
+  const tempPath = createTempFilePath('probe', extensionForMimeType(mimeType));
+  try {
+    writeFileSync(tempPath, audioBuffer);
+    return await probeDuration(tempPath);
+  } finally {
+    removeTempFile(tempPath);
+  }
+}
+
+function normalizeWord(word: string) {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Finds how many leading words of `next` repeat the end of `previous`.
+ * Allows a few junk words at the start of `next` (a word cut in half by
+ * the overlap). A single matching word only counts right at the start of
+ * `next` and when it is long, to avoid eating legitimately repeated words.
+ */
+function findSeamOverlap(previous: string[], next: string[]): number {
+  const tail = previous.map(normalizeWord);
+  const head = next.map(normalizeWord);
+
+  for (let skip = 0; skip <= MAX_SEAM_SKIP; skip++) {
+    const maxLength = Math.min(MAX_SEAM_WORDS, tail.length, head.length - skip);
+    for (let length = maxLength; length >= 2; length--) {
+      let matches = true;
+      for (let k = 0; k < length; k++) {
+        if (tail[tail.length - length + k] !== head[skip + k]) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) return skip + length;
+    }
+  }
+  const last = tail[tail.length - 1];
+  return last && last === head[0] && last.length >= MIN_SINGLE_SEAM_WORD_LENGTH
+    ? 1
+    : 0;
+}
+
+/**
+ * Joins chunk transcripts back into one text, dropping the words repeated
+ * in the overlapping region between consecutive chunks.
+ */
+export function mergeTranscriptParts(parts: string[]): string {
+  let merged = '';
+  for (const part of parts) {
+    const text = part.trim();
+    if (!text) continue;
+    if (!merged) {
+      merged = text;
+      continue;
+    }
+    const previousWords = merged.split(/\s+/);
+    const nextWords = text.split(/(\s+)/);
+    // nextWords keeps the whitespace tokens so paragraphs survive the cut
+    const wordTokens = nextWords.filter((token) => token.trim());
+    const overlap = findSeamOverlap(
+      previousWords.slice(-MAX_SEAM_WORDS),
+      wordTokens.slice(0, MAX_SEAM_WORDS + MAX_SEAM_SKIP),
+    );
+
+    let remaining = text;
+    if (overlap > 0) {
+      let seen = 0;
+      let cut = 0;
+      for (const token of nextWords) {
+        cut += token.length;
+        if (token.trim() && ++seen === overlap) break;
+      }
+      remaining = text.slice(cut).trimStart();
+    }
+    if (remaining) {
+      merged += ' ' + remaining;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Shifts each chunk's segment times to the whole recording's timeline.
+ * Segments centred in the overlap before a chunk's boundary were already
+ * covered by the previous chunk and are dropped.
+ */
+export function mergeChunkSegments(
+  chunks: AudioChunk[],
+  chunkSegments: (TranscriptSegment[] | undefined)[],
+): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+  chunks.forEach((chunk, i) => {
+    for (const segment of chunkSegments[i] || []) {
+      const start = segment.start + chunk.startSeconds;
+      const end = Math.min(
+        segment.end + chunk.startSeconds,
+        chunk.startSeconds + chunk.durationSeconds,
+      );
+      if (i > 0 && (start + end) / 2 < chunk.boundarySeconds) continue;
+      const previousEnd = merged[merged.length - 1]?.end ?? 0;
+      merged.push({
+        start: Math.max(start, previousEnd),
+        end: Math.max(end, previousEnd),
+        text: segment.text,
+        speaker: segment.speaker,
+      });
+    }
+  });
+  return merged;
+}
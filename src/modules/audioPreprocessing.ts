@@ -0,0 +1,236 @@
+import ffmpeg from 'fluent-ffmpeg';
+import {
+  loudnessTargetLufs,
+  loudnessToleranceLu,
+  silenceNoiseThreshold,
+} from './config.js';
+import { DecodeError } from './errors.js';
+import { ffmpegSeconds, timeAsync } from './metrics.js';
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/** The recording's loudness, from a full decode with ebur128. */
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS; -Infinity for digital silence. */
+  integratedLufs: number;
+  /** Length of the decoded audio, for containers that don't report one. */
+  decodedSeconds: number;
+}
+
+/** How much of a recording is speech, and where it starts and ends. */
+export interface SpeechAnalysis {
+  /** Seconds of sound above SILENCE_NOISE_THRESHOLD. */
+  speechSeconds: number;
+  speechRatio: number;
+  /** First and last moment of sound, in seconds. */
+  speechStart: number;
+  speechEnd: number;
+}
+
+// Silence kept around the speech when trimming, so the first and last
+// words are not clipped.
+const TRIM_PADDING_SECONDS = 0.3;
+// Less silence than this at the edges isn't worth re-encoding for.
+const MIN_TRIM_SECONDS = 1;
+// SILENCE_NOISE_THRESHOLD applies to normalized speech: quieter
+// recordings get a threshold lowered by as much as normalization would
+// raise them, up to this much, so that faint hiss still counts as silence.
+const MAX_THRESHOLD_SHIFT_DB = 20;
+
+function parseTimestamp(hours: string, minutes: string, seconds: string) {
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseFloat(seconds)
+  );
+}
+
+/**
+ * Decodes the whole file through ffmpeg's ebur128 filter and returns its
+ * integrated loudness and decoded length.
+ */
+export function measureLoudness(
+  filePath: string,
+): Promise<LoudnessMeasurement> {
+  return timeAsync(ffmpegSeconds, { operation: 'ebur128' }, () =>
+    runLoudnessMeasurement(filePath),
+  );
+}
+
+function runLoudnessMeasurement(
+  filePath: string,
+): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    let integratedLufs = -Infinity;
+    let decodedSeconds = 0;
+
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters('ebur128=framelog=verbose')
+      .format('null')
+      .output('-')
+      .on('stderr', (line: string) => {
+        const loudnessMatch = line.match(/\bI:\s+(-?[\d.]+|-inf) LUFS/);
+        if (loudnessMatch) {
+          integratedLufs =
+            loudnessMatch[1] === '-inf'
+              ? -Infinity
+              : parseFloat(loudnessMatch[1]);
+        }
+        const timeMatch = line.match(/time=(\d+):(\d+):([\d.]+)/);
+        if (timeMatch) {
+          decodedSeconds = parseTimestamp(
+            timeMatch[1],
+            timeMatch[2],
+            timeMatch[3],
+          );
+        }
+      })
+      .on('error', (err: Error) => {
+        reject(
+          new DecodeError(`FFmpeg loudness measurement failed: ${err.message}`),
+        );
+      })
+      .on('end', () => resolve({ integratedLufs, decodedSeconds }))
+      .run();
+  });
+}
+
+/** SILENCE_NOISE_THRESHOLD in dB, whether given in dB or as an amplitude. */
+function configuredThresholdDb() {
+  const value = parseFloat(silenceNoiseThreshold);
+  return /db$/i.test(silenceNoiseThreshold.trim())
+    ? value
+    : 20 * Math.log10(value);
+}
+
+/**
+ * The silencedetect threshold for a recording of the given loudness: the
+ * configured one, lowered for recordings quieter than the loudness target.
+ */
+export function silenceThresholdDb(loudness: LoudnessMeasurement) {
+  const shift = Number.isFinite(loudness.integratedLufs)
+    ? loudnessTargetLufs - loudness.integratedLufs
+    : 0;
+  return (
+    configuredThresholdDb() -
+    Math.min(MAX_THRESHOLD_SHIFT_DB, Math.max(0, shift))
+  );
+}
+
+/**
+ * Whether loudness normalization would change the recording enough to be
+ * worth re-encoding it.
+ */
+export function needsNormalization(loudness: LoudnessMeasurement) {
+  return (
+    Number.isFinite(loudness.integratedLufs) &&
+    Math.abs(loudness.integratedLufs - loudnessTargetLufs) > loudnessToleranceLu
+  );
+}
+
+/**
+ * Runs ffmpeg's silencedetect filter over the file and returns the silent
+ * intervals it reports. A silence still open at the end of the file runs
+ * to `totalSeconds`.
+ */
+export function detectSilences(
+  filePath: string,
+  totalSeconds: number,
+  noiseThresholdDb = configuredThresholdDb(),
+): Promise<SilenceInterval[]> {
+  return new Promise((resolve, reject) => {
+    const silences: SilenceInterval[] = [];
+    let pendingStart: number | null = null;
+
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(
+        `silencedetect=noise=${noiseThresholdDb.toFixed(1)}dB:d=0.4`,
+      )
+      .format('null')
+      .output('-')
+      .on('stderr', (line: string) => {
+        const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+        if (startMatch) {
+          pendingStart = Math.max(0, parseFloat(startMatch[1]));
+          return;
+        }
+        const endMatch = line.match(/silence_end: ([\d.]+)/);
+        if (endMatch && pendingStart !== null) {
+          silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+          pendingStart = null;
+        }
+      })
+      .on('error', (err: Error) => {
+        reject(
+          new DecodeError(`FFmpeg silence detection failed: ${err.message}`),
+        );
+      })
+      .on('end', () => {
+        if (pendingStart !== null && pendingStart < totalSeconds) {
+          silences.push({ start: pendingStart, end: totalSeconds });
+        }
+        resolve(silences);
+      })
+      .run();
+  });
+}
+
+/**
+ * Measures the speech in a media file from its silent intervals, with the
+ * silence threshold adjusted to the recording's loudness.
+ */
+export async function analyzeSpeech(
+  filePath: string,
+  totalSeconds: number,
+  loudness: LoudnessMeasurement,
+): Promise<SpeechAnalysis> {
+  const silences = await timeAsync(
+    ffmpegSeconds,
+    { operation: 'silencedetect' },
+    () => detectSilences(filePath, totalSeconds, silenceThresholdDb(loudness)),
+  );
+
+  let silentSeconds = 0;
+  let speechStart = 0;
+  let speechEnd = totalSeconds;
+  for (const silence of silences) {
+    const start = Math.max(0, silence.start);
+    const end = Math.min(totalSeconds, silence.end);
+    if (end <= start) continue;
+    silentSeconds += end - start;
+    if (start <= 0.05) speechStart = end;
+    if (end >= totalSeconds - 0.05) speechEnd = start;
+  }
+
+  const speechSeconds = Math.max(0, totalSeconds - silentSeconds);
+  return {
+    speechSeconds,
+    speechRatio: totalSeconds ? speechSeconds / totalSeconds : 0,
+    speechStart,
+    speechEnd: Math.max(speechStart, speechEnd),
+  };
+}
+
+/**
+ * The part of the recording to keep once leading and trailing silence is
+ * cut, or null when there is too little silence to bother.
+ */
+export function trimRange(
+  analysis: SpeechAnalysis,
+  totalSeconds: number,
+): { startSeconds: number; durationSeconds: number } | null {
+  const startSeconds = Math.max(0, analysis.speechStart - TRIM_PADDING_SECONDS);
+  const endSeconds = Math.min(
+    totalSeconds,
+    analysis.speechEnd + TRIM_PADDING_SECONDS,
+  );
+  if (totalSeconds - (endSeconds - startSeconds) < MIN_TRIM_SECONDS) {
+    return null;
+  }
+  return { startSeconds, durationSeconds: endSeconds - startSeconds };
+}
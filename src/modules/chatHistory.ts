@@ -0,0 +1,125 @@
+import { retentionCutoff } from './chatSettings.js';
+import { chatHistoryMaxEntries } from './config.js';
+import { createJsonStore } from './jsonStore.js';
+import type { MediaKind } from './transcriptStore.js';
+
+/** One transcribed message in a chat's history. */
+export interface HistoryEntry {
+  messageId: number;
+  senderId?: number;
+  /** Display name of the sender at the time of the message. */
+  senderName: string;
+  /** When the message was sent (ms since epoch). */
+  sentAt: number;
+  kind: MediaKind;
+  text: string;
+}
+
+// Expired entries of all chats are dropped at most this often; reads
+// of a chat drop its own expired entries right away.
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** chat ID -> entries, oldest first */
+const store = createJsonStore<Record<string, HistoryEntry[]>>(
+  'chat-history.json',
+  () => ({}),
+);
+
+/** Bumped on every change of a chat's entries, e.g. to rebuild indexes. */
+const versions = new Map<string, number>();
+let lastSweepAt = 0;
+
+function setEntries(chatId: number | string, entries: HistoryEntry[]) {
+  const key = String(chatId);
+  if (entries.length) {
+    store.data[key] = entries;
+  } else {
+    delete store.data[key];
+  }
+  versions.set(key, (versions.get(key) || 0) + 1);
+  store.save();
+}
+
+/** Drops the chat's entries older than its retention setting. */
+function applyRetention(chatId: number | string) {
+  const entries = store.data[String(chatId)];
+  const cutoff = retentionCutoff(chatId);
+  if (!entries || cutoff === null) return;
+  if (entries[0].sentAt < cutoff) {
+    setEntries(
+      chatId,
+      entries.filter((entry) => entry.sentAt >= cutoff),
+    );
+  }
+}
+
+function sweepExpired() {
+  if (Date.now() - lastSweepAt < RETENTION_SWEEP_INTERVAL_MS) return;
+  lastSweepAt = Date.now();
+  for (const chatId of Object.keys(store.data)) applyRetention(chatId);
+}
+
+/**
+ * Adds a transcript to its chat's history, replacing the entry of the same
+ * message (e.g. after /retranscribe). Keeps the newest
+ * CHAT_HISTORY_MAX_ENTRIES per chat.
+ */
+export function recordHistory(chatId: number, entry: HistoryEntry) {
+  const entries = (store.data[String(chatId)] || []).filter(
+    (existing) => existing.messageId !== entry.messageId,
+  );
+  entries.push(entry);
+  entries.sort((a, b) => a.sentAt - b.sentAt || a.messageId - b.messageId);
+  setEntries(chatId, entries.slice(-chatHistoryMaxEntries));
+  sweepExpired();
+}
+
+/** Replaces the text of an entry, e.g. after a re-transcription. */
+export function updateHistoryText(
+  chatId: number,
+  messageId: number,
+  text: string,
+) {
+  const entries = store.data[String(chatId)];
+  const entry = entries?.find((existing) => existing.messageId === messageId);
+  if (!entry) return;
+  entry.text = text;
+  setEntries(chatId, entries);
+}
+
+export function forgetHistoryEntry(chatId: number, messageId: number) {
+  const entries = store.data[String(chatId)];
+  if (!entries) return;
+  setEntries(
+    chatId,
+    entries.filter((entry) => entry.messageId !== messageId),
+  );
+}
+
+/** Deletes the chat's whole history. Returns how many entries it had. */
+export function purgeHistory(chatId: number) {
+  const count = store.data[String(chatId)]?.length || 0;
+  setEntries(chatId, []);
+  return count;
+}
+
+/**
+ * The chat's entries: all of them, the last `limit`, or all sent at or
+ * after `since` (ms since epoch).
+ */
+export function recentHistory(
+  chatId: number,
+  { limit, since }: { limit?: number; since?: number } = {},
+): HistoryEntry[] {
+  applyRetention(chatId);
+  const entries = store.data[String(chatId)] || [];
+  if (since !== undefined) {
+    return entries.filter((entry) => entry.sentAt >= since);
+  }
+  return limit ? entries.slice(-limit) : [...entries];
+}
+
+/** Changes whenever the chat's entries change. */
+export function historyVersion(chatId: number) {
+  return versions.get(String(chatId)) || 0;
+}
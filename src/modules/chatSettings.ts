@@ -0,0 +1,99 @@
+import { createJsonStore } from './jsonStore.js';
+
+/**
+ * What a transcription produces: the transcript cleaned up or word for
+ * word, or a clean transcript plus bullet notes or action items.
+ */
+export const transcriptionModes = [
+  'clean',
+  'verbatim',
+  'notes',
+  'actions',
+] as const;
+export type TranscriptionMode = (typeof transcriptionModes)[number];
+
+/** Modes whose notes or action items take the place of the TLDR. */
+export const structuredModes: readonly TranscriptionMode[] = [
+  'notes',
+  'actions',
+];
+
+export function isTranscriptionMode(value: string): value is TranscriptionMode {
+  return (transcriptionModes as readonly string[]).includes(value);
+}
+
+/** The mode picked by a `#notes`-style tag in a caption, if any. */
+export function modeFromCaption(caption?: string): TranscriptionMode | null {
+  for (const [, tag] of (caption || '').matchAll(/#(\w+)/g)) {
+    const mode = tag.toLowerCase();
+    if (isTranscriptionMode(mode)) return mode;
+  }
+  return null;
+}
+
+export interface ChatSettings {
+  tldrEnabled: boolean;
+  /** Transcripts longer than this many characters get a TLDR. */
+  tldrThreshold: number;
+  transcriptionMode: TranscriptionMode;
+  /** ISO 639-1 code of the language most likely spoken, or null for auto. */
+  languageHint: string | null;
+  /** Model override; null means the deployment default. */
+  model: string | null;
+  /** Transcription provider override; null means the deployment default. */
+  provider: string | null;
+  /** Label who is speaking in multi-speaker recordings. */
+  diarization: boolean;
+  /** Days transcripts stay in the chat's archive; null keeps them. */
+  historyRetentionDays: number | null;
+  /** Locale of the bot's replies; null follows each user's Telegram language. */
+  uiLanguage: string | null;
+  /**
+   * Language code transcripts in other languages are translated into;
+   * null turns auto-translation off.
+   */
+  translateTo: string | null;
+}
+
+export const defaultChatSettings: ChatSettings = {
+  tldrEnabled: true,
+  tldrThreshold: 300,
+  transcriptionMode: 'clean',
+  languageHint: null,
+  model: null,
+  provider: null,
+  diarization: false,
+  historyRetentionDays: null,
+  uiLanguage: null,
+  translateTo: null,
+};
+
+export const tldrThresholdChoices = [150, 300, 600, 1000];
+
+const store = createJsonStore<Record<string, Partial<ChatSettings>>>(
+  'chat-settings.json',
+  () => ({}),
+);
+
+export function getChatSettings(chatId: number | string): ChatSettings {
+  return { ...defaultChatSettings, ...store.data[String(chatId)] };
+}
+
+export function updateChatSettings(
+  chatId: number | string,
+  patch: Partial<ChatSettings>,
+): ChatSettings {
+  const key = String(chatId);
+  store.data[key] = { ...store.data[key], ...patch };
+  store.save();
+  return getChatSettings(chatId);
+}
+
+/**
+ * Time (ms since epoch) before which the chat's stored transcripts have
+ * expired, or null when its retention is off.
+ */
+export function retentionCutoff(chatId: number | string, now = Date.now()) {
+  const days = getChatSettings(chatId).historyRetentionDays;
+  return days ? now - days * 24 * 3600 * 1000 : null;
+}
@@ -2,16 +2,228 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+function parseChatProviders(value: string | undefined): Map<string, string[]> {
+  // Format: "<chatId>:<provider>[,<provider>];<chatId>:<provider>"
+  const result = new Map<string, string[]>();
+  if (!value) return result;
+  for (const entry of value.split(';')) {
+    const [chatId, providers] = entry.split(':');
+    if (!chatId?.trim() || !providers?.trim()) continue;
+    result.set(
+      chatId.trim(),
+      providers
+        .split(',')
+        .map((p) => p.trim())
+        .filter(Boolean),
+    );
+  }
+  return result;
+}
+
+function parseIdList(value: string | undefined): number[] {
+  // Format: "<id>,<id>"; negative IDs are groups, positive IDs are users
+  return (value || '')
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !Number.isNaN(id));
+}
+
 export const botToken = process.env.BOT_TOKEN;
 export const googleApiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
 export const geminiModelId =
   process.env.GEMINI_MODEL_ID || 'gemini-2.5-pro-preview-05-06';
 
-if (!botToken) {
-  console.error('BOT_TOKEN is missing from .env');
-  process.exit(1);
-}
-if (!googleApiKey) {
+// Transcription backends: 'gemini' or 'openai' (any OpenAI-compatible
+// /v1/audio/transcriptions server, e.g. a self-hosted whisper).
+export const transcriptionProvider =
+  process.env.TRANSCRIPTION_PROVIDER || 'gemini';
+export const transcriptionFallbackProvider =
+  process.env.TRANSCRIPTION_FALLBACK_PROVIDER || undefined;
+export const chatTranscriptionProviders = parseChatProviders(
+  process.env.CHAT_TRANSCRIPTION_PROVIDERS,
+);
+export const transcriptionTimeoutMs = parseInt(
+  process.env.TRANSCRIPTION_TIMEOUT_MS || '60000',
+  10,
+);
+
+export const openAiTranscriptionUrl =
+  process.env.OPENAI_TRANSCRIPTION_URL ||
+  'https://api.openai.com/v1/audio/transcriptions';
+export const openAiTranscriptionApiKey =
+  process.env.OPENAI_TRANSCRIPTION_API_KEY || undefined;
+export const openAiTranscriptionModel =
+  process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1';
+// verbose_json adds segments and the detected language, but OpenAI's
+// gpt-4o(-mini)-transcribe models only accept json (or text).
+export const openAiResponseFormat =
+  process.env.OPENAI_TRANSCRIPTION_RESPONSE_FORMAT ||
+  (/^gpt-4o/.test(openAiTranscriptionModel) ? 'json' : 'verbose_json');
+
+// Long recordings are split at silences and transcribed chunk by chunk.
+export const chunkingThresholdSeconds = parseInt(
+  process.env.CHUNKING_THRESHOLD_SECONDS || '480',
+  10,
+);
+export const chunkTargetSeconds = parseInt(
+  process.env.CHUNK_TARGET_SECONDS || '300',
+  10,
+);
+export const chunkOverlapSeconds = parseFloat(
+  process.env.CHUNK_OVERLAP_SECONDS || '2',
+);
+export const chunkConcurrency = parseInt(
+  process.env.CHUNK_CONCURRENCY || '3',
+  10,
+);
+export const silenceNoiseThreshold =
+  process.env.SILENCE_NOISE_THRESHOLD || '-35dB';
+
+// Audio preprocessing: recordings with less sound above the silence
+// threshold than this are refused before any model call. Leading and
+// trailing silence is trimmed and loudness normalized unless disabled.
+export const minSpeechSeconds = parseFloat(
+  process.env.MIN_SPEECH_SECONDS || '0.5',
+);
+export const trimSilence = process.env.TRIM_SILENCE !== 'false';
+export const normalizeLoudness = process.env.NORMALIZE_LOUDNESS !== 'false';
+// Loudness speech is normalized to, and how far off a recording may be
+// before normalizing it is worth re-encoding for.
+export const loudnessTargetLufs = -16;
+export const loudnessToleranceLu = 2;
+
+// Media above these limits is refused before it is downloaded. The
+// public Bot API can't download files larger than 20 MB.
+export const maxMediaFileBytes =
+  parseFloat(process.env.MAX_MEDIA_FILE_MB || '20') * 1024 * 1024;
+export const maxMediaDurationSeconds = parseInt(
+  process.env.MAX_MEDIA_DURATION_SECONDS || '10800',
+  10,
+);
+
+// Transcripts longer than this (in characters) are sent as a file.
+export const transcriptDocumentThreshold = parseInt(
+  process.env.TRANSCRIPT_DOCUMENT_THRESHOLD || '12000',
+  10,
+);
+export const transcriptDocumentFormat =
+  process.env.TRANSCRIPT_DOCUMENT_FORMAT === 'md' ? 'md' : 'txt';
+
+// Owner of the deployment (Telegram user ID), allowed to see
+// everyone's usage and to run the access control commands.
+export const ownerUserId = process.env.OWNER_USER_ID
+  ? parseInt(process.env.OWNER_USER_ID, 10)
+  : null;
+
+// Access control: 'open' (default) serves everyone, 'allowlist' only the
+// allowed chats and users. Denied ones are refused in both modes. /allow
+// and /deny extend these lists at runtime.
+export const accessMode =
+  process.env.ACCESS_MODE === 'allowlist' ? 'allowlist' : 'open';
+export const allowedIds = parseIdList(process.env.ALLOWED_IDS);
+export const deniedIds = parseIdList(process.env.DENIED_IDS);
+
+// Audio minutes allowed per user and per chat; 0 means unlimited.
+export const quotaUserDailyMinutes = parseFloat(
+  process.env.QUOTA_USER_DAILY_MINUTES || '0',
+);
+export const quotaUserMonthlyMinutes = parseFloat(
+  process.env.QUOTA_USER_MONTHLY_MINUTES || '0',
+);
+export const quotaChatDailyMinutes = parseFloat(
+  process.env.QUOTA_CHAT_DAILY_MINUTES || '0',
+);
+export const quotaChatMonthlyMinutes = parseFloat(
+  process.env.QUOTA_CHAT_MONTHLY_MINUTES || '0',
+);
+
+// Bot replies use the chat's interface language, else the user's Telegram
+// language when there is a catalog for it, else DEFAULT_LOCALE. Messages
+// can be overridden per locale from a JSON file.
+export const defaultLocale = (process.env.DEFAULT_LOCALE || 'en').toLowerCase();
+export const i18nOverridesFile = process.env.I18N_OVERRIDES_FILE || undefined;
+
+// Log lines are JSON by default; "text" keeps the plain format.
+export const logFormat = process.env.LOG_FORMAT === 'text' ? 'text' : 'json';
+
+// Directory for persistent bot state (per-chat settings etc.)
+export const dataDir = process.env.DATA_DIR || './data';
+
+// Choices offered by /settings
+export const modelChoices = [
+  ...new Set([
+    geminiModelId,
+    ...(process.env.GEMINI_MODEL_CHOICES || 'gemini-2.5-flash')
+      .split(',')
+      .map((m) => m.trim())
+      .filter(Boolean),
+  ]),
+];
+export const languageHintChoices = (
+  process.env.LANGUAGE_HINT_CHOICES || 'en,ru,uk,es,de,fr'
+)
+  .split(',')
+  .map((l) => l.trim())
+  .filter(Boolean);
+
+// Transcription job queue and per-user rate limits
+export const queueConcurrency = parseInt(
+  process.env.QUEUE_CONCURRENCY || '4',
+  10,
+);
+export const queuePerChatConcurrency = parseInt(
+  process.env.QUEUE_PER_CHAT_CONCURRENCY || '2',
+  10,
+);
+export const queueMaxSize = parseInt(process.env.QUEUE_MAX_SIZE || '100', 10);
+export const rateLimitBurst = parseInt(process.env.RATE_LIMIT_BURST || '5', 10);
+export const rateLimitPerMinute = parseFloat(
+  process.env.RATE_LIMIT_PER_MINUTE || '3',
+);
+
+// Transcripts of already seen files (by file_unique_id) are reused
+export const transcriptCacheTtlHours = parseFloat(
+  process.env.TRANSCRIPT_CACHE_TTL_HOURS || '168',
+);
+export const transcriptCacheMaxEntries = parseInt(
+  process.env.TRANSCRIPT_CACHE_MAX_ENTRIES || '2000',
+  10,
+);
+
+// Transcripts remembered for follow-up commands (/subtitles etc.)
+export const transcriptStoreMaxEntries = parseInt(
+  process.env.TRANSCRIPT_STORE_MAX_ENTRIES || '5000',
+  10,
+);
+
+// Transcripts kept per chat, with sender and time, for /summary
+export const chatHistoryMaxEntries = parseInt(
+  process.env.CHAT_HISTORY_MAX_ENTRIES || '1000',
+  10,
+);
+
+// Startup mode: 'polling' (default) or 'webhook'. Webhook mode runs an
+// HTTP server that Telegram POSTs updates to.
+export const botMode =
+  process.env.BOT_MODE === 'webhook' ? 'webhook' : 'polling';
+export const webhookUrl = process.env.WEBHOOK_URL;
+export const webhookPath = process.env.WEBHOOK_PATH || '/telegram/webhook';
+export const webhookSecret = process.env.WEBHOOK_SECRET || undefined;
+// The HTTP server (health/readiness probes) always runs in webhook mode;
+// in polling mode only when a port is configured.
+export const httpPort = process.env.HTTP_PORT
+  ? parseInt(process.env.HTTP_PORT, 10)
+  : botMode === 'webhook'
+    ? 8080
+    : undefined;
+
+const configuredProviders = new Set([
+  transcriptionProvider,
+  ...(transcriptionFallbackProvider ? [transcriptionFallbackProvider] : []),
+  ...[...chatTranscriptionProviders.values()].flat(),
+]);
+
+if (configuredProviders.has('gemini') && !googleApiKey) {
   console.error(
     'GOOGLE_GENERATIVE_AI_API_KEY is missing from .env for Google AI',
   );
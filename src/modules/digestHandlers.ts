@@ -0,0 +1,211 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+import { accessDecision } from './accessControl.js';
+import { digestMessages } from './aiService.js';
+import { recentHistory, type HistoryEntry } from './chatHistory.js';
+import { getChatSettings } from './chatSettings.js';
+import { escapeHtml, splitMessageText } from './formatter.js';
+import { localeFor, t } from './i18n.js';
+import type { ChatDigest } from './transcriptionProviders.js';
+import { log, sendContinuousTypingAction } from './utils.js';
+
+const DEFAULT_MESSAGES = 20;
+const MAX_MESSAGES = 200;
+// Oldest messages are left out beyond this much transcript text
+const MAX_INPUT_CHARACTERS = 100_000;
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+const durationUnits: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Chats with a digest in progress, to ignore repeated commands. */
+const busy = new Set<number>();
+
+type DigestRange = { limit: number } | { since: number; label: string };
+
+/**
+ * Parses the /summary argument: a message count ("30") or a time window
+ * ("90m", "2h", "1d", "1w"). Returns null if it is neither.
+ */
+function parseRange(args: string): DigestRange | null {
+  const value = args.trim().toLowerCase();
+  if (!value) return { limit: DEFAULT_MESSAGES };
+  if (/^\d+$/.test(value)) {
+    return { limit: Math.min(Math.max(parseInt(value, 10), 1), MAX_MESSAGES) };
+  }
+  const window = value.match(/^(\d+)\s*([mhdw])$/);
+  if (window) {
+    const duration = parseInt(window[1], 10) * durationUnits[window[2]];
+    return { since: Date.now() - duration, label: value.replace(/\s+/g, '') };
+  }
+  return null;
+}
+
+function selectEntries(chatId: number, range: DigestRange): HistoryEntry[] {
+  const entries =
+    'limit' in range
+      ? recentHistory(chatId, { limit: range.limit })
+      : recentHistory(chatId, { since: range.since }).slice(-MAX_MESSAGES);
+
+  let characters = 0;
+  const selected: HistoryEntry[] = [];
+  for (const entry of [...entries].reverse()) {
+    characters += entry.text.length;
+    if (characters > MAX_INPUT_CHARACTERS && selected.length) break;
+    selected.unshift(entry);
+  }
+  return selected;
+}
+
+/**
+ * Escapes `text` in pieces of at most `limit` characters once escaped,
+ * cut in the plain text so no entity is ever split.
+ */
+function escapePieces(text: string, limit: number): string[] {
+  return splitMessageText(text, limit).flatMap((piece) => {
+    const html = escapeHtml(piece);
+    if (html.length <= limit || piece.length <= 1) return [html];
+    // Escaping made the piece too long; cut it shorter by as much
+    return escapePieces(
+      piece,
+      Math.max(1, Math.floor((piece.length * limit) / html.length)),
+    );
+  });
+}
+
+/**
+ * Lines of one topic, each a complete piece of HTML no longer than a
+ * message: text too long for one is split before it is escaped.
+ */
+function renderTopic({ title, points }: ChatDigest['topics'][number]) {
+  const lines = escapePieces(title, TELEGRAM_MESSAGE_LIMIT - 7).map(
+    (piece) => `<b>${piece}</b>`,
+  );
+  for (const { speakers, text } of points) {
+    const prefix = speakers.length
+      ? `• <i>${escapeHtml(speakers.join(', '))}</i>: `
+      : '• ';
+    const pieces = escapePieces(
+      text,
+      Math.max(1, TELEGRAM_MESSAGE_LIMIT - prefix.length),
+    );
+    lines.push(...pieces.map((piece, i) => (i ? piece : prefix + piece)));
+  }
+  return lines;
+}
+
+/**
+ * Renders the digest as HTML messages; topics are never split between
+ * messages unless a single topic is longer than a message, and then only
+ * between lines.
+ */
+function renderDigest(digest: ChatDigest, header: string): string[] {
+  const messages: string[] = [];
+  let current = header;
+  for (const lines of digest.topics.map(renderTopic)) {
+    const block = lines.join('\n');
+    if (`${current}\n\n${block}`.length <= TELEGRAM_MESSAGE_LIMIT) {
+      current = `${current}\n\n${block}`;
+      continue;
+    }
+    messages.push(current);
+    current = '';
+    for (const line of lines) {
+      if (current && `${current}\n${line}`.length > TELEGRAM_MESSAGE_LIMIT) {
+        messages.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${line}` : line;
+    }
+  }
+  messages.push(current);
+  return messages;
+}
+
+async function handleSummaryCommand(
+  bot: TelegramBot,
+  msg: Message,
+  args: string,
+) {
+  const chatId = msg.chat.id;
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(chatId, text, {
+      parse_mode: 'HTML',
+      reply_to_message_id: msg.message_id,
+    });
+
+  const range = parseRange(args);
+  if (!range) {
+    await reply(t(locale, 'digestUsage'));
+    return;
+  }
+  const entries = selectEntries(chatId, range);
+  if (!entries.length) {
+    await reply(
+      'label' in range
+        ? t(locale, 'digestEmptyWindow', { window: escapeHtml(range.label) })
+        : t(locale, 'digestEmpty'),
+    );
+    return;
+  }
+  if (busy.has(chatId)) {
+    await reply(t(locale, 'digestBusy'));
+    return;
+  }
+
+  busy.add(chatId);
+  const typingAction = sendContinuousTypingAction(bot, chatId);
+  try {
+    typingAction.start();
+    const digest = await digestMessages(
+      entries.map((entry) => ({
+        speaker: entry.senderName,
+        sentAt: new Date(entry.sentAt),
+        text: entry.text,
+      })),
+      { chatId, settings: getChatSettings(chatId) },
+    );
+    typingAction.stop();
+    const speakers = new Set(entries.map((entry) => entry.senderName)).size;
+    const header =
+      'label' in range
+        ? t(locale, 'digestHeaderWindow', {
+            window: escapeHtml(range.label),
+            count: entries.length,
+            speakers,
+          })
+        : t(locale, 'digestHeader', { count: entries.length, speakers });
+    for (const text of renderDigest(digest, header)) {
+      await reply(text);
+    }
+  } catch (error) {
+    typingAction.stop();
+    log(
+      `Failed to build digest in chat ${chatId}: ${(error as Error).message}`,
+    );
+    await reply(t(locale, 'digestFailed'));
+  } finally {
+    busy.delete(chatId);
+  }
+}
+
+/**
+ * Registers /summary, a topic digest of the chat's recent transcripts.
+ */
+export function registerDigestHandlers(bot: TelegramBot) {
+  bot.onText(/^\/summary(?:@\w+)?(?:\s+(.*))?$/, async (msg, match) => {
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleSummaryCommand(bot, msg, match?.[1] || '');
+    } catch (error) {
+      log(
+        `Failed to handle /summary in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * The failures the bot tells apart. Each kind has its own retry policy
+ * (used by utils.retry) and its own reply to the user.
+ */
+export type ErrorKind =
+  | 'download'
+  | 'decode'
+  | 'silent_audio'
+  | 'too_long'
+  | 'model_timeout'
+  | 'model_refusal'
+  | 'unsupported_mode'
+  | 'rate_limited'
+  | 'rejected'
+  | 'quota_exceeded'
+  | 'message_too_long'
+  | 'other';
+
+export class BotError extends Error {
+  readonly kind: ErrorKind = 'other';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** Telegram refused to hand out the file, or the transfer failed. */
+export class DownloadError extends BotError {
+  override readonly kind = 'download';
+}
+
+/** ffmpeg or ffprobe couldn't read the media. */
+export class DecodeError extends BotError {
+  override readonly kind = 'decode';
+}
+
+/** The media has no audio track, or nothing audible in it. */
+export class SilentAudioError extends BotError {
+  override readonly kind = 'silent_audio';
+}
+
+/** The media is longer than the configured limit. */
+export class MediaTooLongError extends BotError {
+  override readonly kind = 'too_long';
+}
+
+/** The model didn't answer within TRANSCRIPTION_TIMEOUT_MS. */
+export class ModelTimeoutError extends BotError {
+  override readonly kind = 'model_timeout';
+}
+
+/** The model answered without a result, e.g. blocked by safety filters. */
+export class ModelRefusalError extends BotError {
+  override readonly kind = 'model_refusal';
+}
+
+/**
+ * No provider in the chain can produce the requested transcription mode,
+ * e.g. notes from a plain Whisper endpoint.
+ */
+export class UnsupportedModeError extends BotError {
+  override readonly kind = 'unsupported_mode';
+}
+
+/** Telegram or a model API asked us to slow down. */
+export class RateLimitedError extends BotError {
+  override readonly kind = 'rate_limited';
+  /** How long the service asked us to wait, if it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options?: { cause?: unknown; retryAfterMs?: number },
+  ) {
+    super(message, options);
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/**
+ * An API refused the request itself (a 4xx other than 429, e.g. a bad
+ * request or invalid credentials): sending it again won't help.
+ */
+export class RequestRejectedError extends BotError {
+  override readonly kind = 'rejected';
+}
+
+/**
+ * The user is over a usage quota or the per-user rate limit. The message
+ * is the localized reply to show them.
+ */
+export class QuotaExceededError extends BotError {
+  override readonly kind = 'quota_exceeded';
+}
+
+/** Telegram refused a message or caption as too long. */
+export class MessageTooLongError extends BotError {
+  override readonly kind = 'message_too_long';
+}
+
+export interface RetryPolicy {
+  /** Attempts in total, including the first one. */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const noRetry: RetryPolicy = { attempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+
+// Broken, silent or refused media, rejected requests and exceeded quotas
+// fail the same way every time. Model timeouts get one more try only: each attempt can
+// take the whole TRANSCRIPTION_TIMEOUT_MS.
+export const retryPolicies: Record<ErrorKind, RetryPolicy> = {
+  download: { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000 },
+  decode: noRetry,
+  silent_audio: noRetry,
+  too_long: noRetry,
+  model_timeout: { attempts: 2, baseDelayMs: 2000, maxDelayMs: 2000 },
+  model_refusal: noRetry,
+  unsupported_mode: noRetry,
+  rate_limited: { attempts: 4, baseDelayMs: 2000, maxDelayMs: 60_000 },
+  rejected: noRetry,
+  quota_exceeded: noRetry,
+  message_too_long: noRetry,
+  other: { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000 },
+};
+
+/** Seconds or an HTTP date, as in a Retry-After header. */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number') return value * 1000;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+interface ForeignError {
+  name?: string;
+  message?: string;
+  /** node-telegram-bot-api */
+  code?: string;
+  response?: {
+    statusCode?: number;
+    body?: { parameters?: { retry_after?: number } };
+  };
+  /** Vercel AI SDK API call errors */
+  statusCode?: number;
+  responseHeaders?: Record<string, string>;
+  /** Vercel AI SDK retry errors wrap the last attempt's error */
+  lastError?: unknown;
+}
+
+/**
+ * The error as a BotError: BotErrors are returned as they are, errors of
+ * the Telegram client and the AI SDK are classified by status code and
+ * message, anything else becomes a plain BotError of kind 'other'.
+ * Timeouts and 5xx responses stay retryable.
+ */
+export function toBotError(error: unknown): BotError {
+  if (error instanceof BotError) return error;
+  const foreign = (error || {}) as ForeignError;
+  if (foreign.lastError) return toBotError(foreign.lastError);
+
+  const message = foreign.message || String(error);
+  const status = foreign.response?.statusCode ?? foreign.statusCode;
+  if (status === 429) {
+    return new RateLimitedError(message, {
+      cause: error,
+      retryAfterMs: parseRetryAfter(
+        foreign.response?.body?.parameters?.retry_after ??
+          foreign.responseHeaders?.['retry-after'],
+      ),
+    });
+  }
+  // Requests aborted by AbortSignal.timeout(), i.e. model calls
+  if (foreign.name === 'TimeoutError') {
+    return new ModelTimeoutError(message, { cause: error });
+  }
+  if (
+    /message is too long|MESSAGE_TOO_LONG|caption is too long/i.test(message)
+  ) {
+    return new MessageTooLongError(message, { cause: error });
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return new RequestRejectedError(message, { cause: error });
+  }
+  return new BotError(message, { cause: error });
+}
+
+export function errorKind(error: unknown): ErrorKind {
+  return toBotError(error).kind;
+}
+
+/**
+ * How long to wait before attempt `attempt + 1` after `error`, or null
+ * if its policy allows no more attempts. Delays grow exponentially with
+ * jitter; a rate limit waits at least as long as the service asked.
+ */
+export function retryDelayMs(error: BotError, attempt: number): number | null {
+  const policy = retryPolicies[error.kind];
+  if (attempt >= policy.attempts) return null;
+  if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+    if (error.retryAfterMs > policy.maxDelayMs) return null;
+    return error.retryAfterMs + Math.random() * 1000;
+  }
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
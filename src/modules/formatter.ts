@@ -0,0 +1,385 @@
+/**
+ * Rendering of model output for Telegram replies sent with
+ * `parse_mode: 'HTML'`. Everything the model writes is escaped here, so
+ * a spoken "<" or "&" can never break a message or turn into markup.
+ */
+
+import { languageName, t } from './i18n.js';
+import type { ActionItem } from './transcriptionProviders.js';
+
+export interface TranscriptView {
+  /** Optional bold first line, e.g. the name of a transcribed document. */
+  title?: string;
+  transcribedText: string;
+  tldr: string | null;
+  /** Notes and action items are shown instead of the TLDR. */
+  notes?: string[];
+  actionItems?: ActionItem[];
+  decisions?: string[];
+  /** Detected language of the recording, shown under the title. */
+  language?: string;
+  /** Shown below the transcript, which is then quoted. */
+  translation?: { language: string; text: string };
+  /** Locale of the labels around the transcript. */
+  locale?: string;
+}
+
+/** One Telegram message, as HTML plus the plain-text fallback. */
+export interface RenderedMessage {
+  html: string;
+  plain: string;
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Cuts `text` into pieces no longer than `limit`, preferring paragraph
+ * breaks, then line breaks, then spaces. Only hard-cuts a piece when a
+ * single word is longer than the limit.
+ */
+export function splitMessageText(text: string, limit: number): string[] {
+  if (limit < 1) throw new RangeError(`Invalid message limit: ${limit}`);
+  const pieces: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < limit / 2) cut = window.lastIndexOf('\n');
+    if (cut < limit / 2) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = limit;
+
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Escapes model text and renders the list formatting the transcription
+ * prompt asks for: numbered items keep their numbers (bolded), markdown
+ * bullets become "•" and `**bold**` becomes <b>bold</b>.
+ */
+export function formatModelText(text: string) {
+  return text
+    .split('\n')
+    .map((line) => {
+      const numbered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+      if (numbered) {
+        const [, indent, number, item] = numbered;
+        return `${indent}<b>${number}.</b> ${formatInline(item)}`;
+      }
+      const bullet = line.match(/^(\s*)[-*•]\s+(.*)$/);
+      if (bullet) {
+        const [, indent, item] = bullet;
+        return `${indent}• ${formatInline(item)}`;
+      }
+      return formatInline(line);
+    })
+    .join('\n');
+}
+
+function formatInline(text: string) {
+  return escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<b>$1</b>');
+}
+
+function plainModelText(text: string) {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1');
+}
+
+/** What a reply shows above the transcript. */
+interface LeadSection {
+  label: string;
+  /** Heading of the section in Markdown files. */
+  heading: string;
+  /** Model text, in the markup formatModelText understands. */
+  text: string;
+}
+
+function renderActionItems({
+  actionItems = [],
+  decisions = [],
+  locale,
+}: TranscriptView) {
+  const lines = actionItems.map(({ task, owner, due }) => {
+    const details = [owner, due && t(locale, 'actionItemDue', { due })]
+      .filter(Boolean)
+      .join(', ');
+    return `- ${task}${details ? ` (${details})` : ''}`;
+  });
+  if (!lines.length) lines.push(t(locale, 'actionItemsNone'));
+  if (decisions.length) {
+    lines.push(
+      '',
+      `**${t(locale, 'decisionsLabel')}**`,
+      ...decisions.map((decision) => `- ${decision}`),
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The action items, notes or TLDR of the view, whichever it has, in that
+ * order; null when it has none of them.
+ */
+function leadSection(view: TranscriptView): LeadSection | null {
+  const { locale } = view;
+  if (view.actionItems) {
+    return {
+      label: t(locale, 'actionItemsLabel'),
+      heading: 'Action items',
+      text: renderActionItems(view),
+    };
+  }
+  if (view.notes?.length) {
+    return {
+      label: t(locale, 'notesLabel'),
+      heading: 'Notes',
+      text: view.notes.map((note) => `- ${note}`).join('\n'),
+    };
+  }
+  const tldr = view.tldr?.trim();
+  return tldr
+    ? { label: t(locale, 'tldrLabel'), heading: 'TLDR', text: tldr }
+    : null;
+}
+
+/** Whether the transcript goes into a quote below other content. */
+function isQuoted(view: TranscriptView) {
+  return Boolean(leadSection(view) || view.translation);
+}
+
+function renderLanguageLine({ language, locale }: TranscriptView) {
+  const text = language
+    ? t(locale, 'detectedLanguage', {
+        language: languageName(language, locale),
+      })
+    : '';
+  return {
+    html: text ? `<i>${escapeHtml(text)}</i>\n` : '',
+    plain: text ? `${text}\n` : '',
+  };
+}
+
+/** The optional title and the language line that open every reply. */
+function renderTop(view: TranscriptView): RenderedMessage {
+  const { title } = view;
+  const language = renderLanguageLine(view);
+  return {
+    html: (title ? `<b>${escapeHtml(title)}</b>\n` : '') + language.html,
+    plain: (title ? `${title}\n` : '') + language.plain,
+  };
+}
+
+function translationLabel(translation: { language: string }, locale?: string) {
+  return t(locale, 'translationLabel', {
+    language: languageName(translation.language, locale),
+  });
+}
+
+function renderBody(text: string, quoted: boolean) {
+  const formatted = formatModelText(text);
+  return quoted
+    ? `<blockquote expandable>${formatted}</blockquote>`
+    : formatted;
+}
+
+// Least room for a section's text worth starting it in the message the
+// previous section ends in
+const MIN_SECTION_ROOM = 256;
+
+/**
+ * Renders a transcript as one or more messages of at most `limit`
+ * characters. With a TLDR, notes, action items or a translation, the
+ * original text goes into an expandable blockquote; every continuation
+ * message gets its own quote so no tag is ever split between messages.
+ * The lead section is split the same way, and the original starts in its
+ * last message if there is room. A translation follows the original, in
+ * the same message if it fits.
+ */
+export function renderTranscriptMessages(
+  view: TranscriptView,
+  limit: number,
+): RenderedMessage[] {
+  const renderSection = (
+    sectionText: string,
+    header: RenderedMessage,
+    quoted: boolean,
+  ) => {
+    const messages: RenderedMessage[] = [];
+    const pushPieces = (text: string, budget: number) => {
+      for (const piece of splitMessageText(text, budget)) {
+        const prefix = messages.length === 0 ? header : { html: '', plain: '' };
+        const html = prefix.html + renderBody(piece, quoted);
+        if (html.length > limit && piece.length > 1) {
+          // Escaping made the piece too long; retry it in parts shrunk by
+          // as much as it grew
+          const room = limit - prefix.html.length - 64;
+          const grown = html.length - prefix.html.length;
+          pushPieces(
+            piece,
+            Math.max(
+              1,
+              Math.min(
+                piece.length - 1,
+                Math.floor((piece.length * room) / grown),
+              ),
+            ),
+          );
+          continue;
+        }
+        messages.push({ html, plain: prefix.plain + plainModelText(piece) });
+      }
+    };
+    // Leave room for the header and the quote tags in the first message
+    pushPieces(sectionText, Math.max(1, limit - header.html.length - 64));
+    if (!messages.length && header.html) messages.push(header);
+    return messages;
+  };
+
+  const top = renderTop(view);
+  const lead = leadSection(view);
+  const quoted = isQuoted(view);
+  const originalLabel = t(view.locale, 'originalLabel');
+  const originalHeader = quoted
+    ? { html: `<b>${originalLabel}</b>\n`, plain: `${originalLabel}\n` }
+    : { html: '', plain: '' };
+
+  let messages: RenderedMessage[];
+  if (lead) {
+    messages = renderSection(
+      lead.text,
+      {
+        html: `${top.html}<b>${lead.label}</b>\n`,
+        plain: `${top.plain}${lead.label}\n`,
+      },
+      false,
+    );
+    const last = messages[messages.length - 1];
+    const continues =
+      last.html.length + originalHeader.html.length + 2 + MIN_SECTION_ROOM <=
+      limit;
+    const header = continues
+      ? {
+          html: `${last.html}\n\n${originalHeader.html}`,
+          plain: `${last.plain}\n\n${originalHeader.plain}`,
+        }
+      : originalHeader;
+    messages = [
+      ...messages.slice(0, continues ? -1 : undefined),
+      ...renderSection(view.transcribedText, header, quoted),
+    ];
+  } else {
+    messages = renderSection(
+      view.transcribedText,
+      {
+        html: top.html + originalHeader.html,
+        plain: top.plain + originalHeader.plain,
+      },
+      quoted,
+    );
+  }
+  if (!view.translation) return messages;
+
+  const label = translationLabel(view.translation, view.locale);
+  const translated = renderSection(
+    view.translation.text,
+    { html: `<b>${escapeHtml(label)}</b>\n`, plain: `${label}\n` },
+    false,
+  );
+  // Keep a short transcript and its translation in one message
+  const last = messages[messages.length - 1];
+  if (
+    translated.length === 1 &&
+    last.html.length + translated[0].html.length + 2 <= limit
+  ) {
+    messages[messages.length - 1] = {
+      html: `${last.html}\n\n${translated[0].html}`,
+      plain: `${last.plain}\n\n${translated[0].plain}`,
+    };
+    return messages;
+  }
+  return [...messages, ...translated];
+}
+
+/**
+ * Caption for a transcript attached as a file: the TLDR, notes or action
+ * items only, shortened to fit.
+ */
+export function renderTranscriptCaption(
+  view: TranscriptView,
+  limit: number,
+): RenderedMessage {
+  const lead = leadSection(view);
+  const language = renderLanguageLine(view);
+  if (!lead) {
+    const text = t(view.locale, 'transcriptAttached');
+    return { html: language.html + text, plain: language.plain + text };
+  }
+  let shortText = lead.text;
+  const render = () => ({
+    html: `${language.html}<b>${lead.label}</b>\n${formatModelText(shortText)}`,
+    plain: `${language.plain}${lead.label}\n${plainModelText(shortText)}`,
+  });
+  let caption = render();
+  while (caption.html.length > limit && shortText) {
+    const shorter = shortText.slice(0, shortText.length - 64).trimEnd();
+    shortText = shorter ? `${shorter}…` : '';
+    caption = render();
+  }
+  if (caption.html.length <= limit) return caption;
+  // Even the language line and label don't fit: drop the markup and cut
+  // the text, without leaving half an entity behind
+  const plain = caption.plain.slice(0, limit);
+  return {
+    html: escapeHtml(plain)
+      .slice(0, limit)
+      .replace(/&[^;]*$/, ''),
+    plain,
+  };
+}
+
+/**
+ * Plain-text file content for a transcript attached as a document.
+ */
+export function renderTranscriptFile(
+  view: TranscriptView,
+  format: 'md' | 'txt',
+) {
+  const { transcribedText, translation, locale } = view;
+  const lead = leadSection(view);
+  if (format === 'md') {
+    let content = lead
+      ? `# Transcript\n\n## ${lead.heading}\n\n${lead.text}\n\n## Original text\n\n${transcribedText}\n`
+      : `# Transcript\n\n${transcribedText}\n`;
+    if (translation) {
+      content += `\n## Translation (${translation.language})\n\n${translation.text}\n`;
+    }
+    return content;
+  }
+  let content = lead
+    ? `${lead.label}\n${plainModelText(lead.text)}\n\n${t(locale, 'originalLabel')}\n${transcribedText}\n`
+    : `${transcribedText}\n`;
+  if (translation) {
+    content += `\n${translationLabel(translation, locale)}\n${translation.text}\n`;
+  }
+  return content;
+}
+
+/**
+ * True when Telegram refused a message because of its HTML entities.
+ */
+export function isEntityParseError(error: unknown) {
+  const message = (error as Error)?.message || '';
+  return (
+    message.includes("can't parse entities") ||
+    message.includes('Unsupported start tag') ||
+    message.includes("Can't find end tag")
+  );
+}
@@ -0,0 +1,487 @@
+import type { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
+import { google } from '@ai-sdk/google';
+import { generateText, type CoreMessage } from 'ai';
+import { z } from 'zod';
+import { geminiModelId, transcriptionTimeoutMs } from './config.js'; // Assuming googleApiKey is used implicitly by the SDK
+import { ModelRefusalError, toBotError } from './errors.js';
+import { recordTokenUsage } from './metrics.js';
+import { log } from './utils.js';
+import type { TranscriptionMode } from './chatSettings.js';
+import type {
+  ChatDigest,
+  DigestMessage,
+  ProviderTranscribeOptions,
+  SummaryDetail,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from './transcriptionProviders.js';
+
+const summaryLengthRules: Record<SummaryDetail, string> = {
+  brief: `4. Be at most 12 words capturing only the main point
+5. Be a single sentence, not a list of points`,
+  standard: `4. Be 20-30 words summarizing the general idea 
+5. Be a single sentence, not a list of points`,
+  detailed: `4. Be 60-100 words covering every main point in the order they were made
+5. Be a single paragraph, not a list of points`,
+  outline: `4. Be a numbered list of 3-8 short points covering everything important, one point per line
+5. Keep each point under 20 words`,
+};
+
+function buildSummaryRules(detail: SummaryDetail = 'standard') {
+  return `1. Use the same language as the transcription
+2. Maintain the same first/third person perspective as the original message
+3. Keep the same tone, style and speaking voice
+${summaryLengthRules[detail]}
+6. NOT describe the message in third person (like "the user talks about...") - instead, preserve the original voice`;
+}
+
+const tldrRules = buildSummaryRules();
+
+const partialChunkPrompt = `
+
+## Partial Recording
+This audio is one part of a longer recording that was split into chunks. It may start or end in the middle of a sentence: transcribe exactly what is audible and do not complete cut-off sentences.`;
+
+const baseTranscriptionPrompt = `You are a highly proficient audio transcription robot. Your primary function is to accurately convert spoken audio from telegram voice messages into written text with correct punctuation, formatting and language preservation.
+
+## Key Instructions
+0.  Do not add anything not related to the transcription / tldr to output, keep it as correct as possible.
+1.  **Language Preservation**: Transcribe the audio in the exact language spoken. Do not translate.
+2.  **Accuracy**: Capture all spoken words precisely.
+3.  **Punctuation and Formatting**: Apply standard punctuation (periods, commas, question marks, capitalization, paragraphs for distinct speakers or long pauses if discernible) to ensure the text is clear, well-structured, and easy to read.
+4.  **No Extraneous Content**: Your output must *only* be the transcribed text. Do not include any introductory phrases (e.g., "Here is the transcription:"), summaries, disclaimers, or any other text that is not part of the direct transcription.
+5.  **Tool Usage**: You MUST use the 'outputTranscription' tool to provide the final transcribed text.`;
+
+const segmentsPrompt = `
+
+## Segments
+Also split the transcription into consecutive segments of one or two sentences (at most ~7 seconds of speech each) with their start and end times in seconds from the beginning of the audio. Segment times must not overlap and must follow the order of speech. The segment texts together must match the transcribed text. If the audio is a part of a longer recording, times are still relative to the beginning of this audio.`;
+
+const diarizationPrompt = `
+
+## Speakers
+The recording may have several speakers, e.g. a meeting. Label every segment with who is speaking: "Speaker 1" for the first voice heard, "Speaker 2" for the second, and so on. Tell speakers apart by their voices and keep each label for the same voice throughout. Start a new segment whenever the speaker changes. If there is only one speaker, label every segment "Speaker 1".`;
+
+const cleanModeRules = `6.  **Filler Words**: Remove all filler words like "um", "uh", "ah", "er", "like" and same on another languages. If the text is really short, just return the text as is.
+7.  **Points**: If voice message contains some lists, points, etc. Make proper formatting for them.
+  Example:
+  "do this, do that, do the other thing"
+  should be formatted as:
+  "1. Do this
+  2. Do that
+  3. Do the other thing"
+8.  **Numbers**: If voice message contains numbers, make proper formatting for them.
+  Example:
+  "seven thousand, eight hundred, nine" -> "7000, 800, 9"`;
+
+const verbatimModeRules = `6.  **Verbatim**: Keep every spoken word exactly as said, including filler words ("um", "uh", "like" and same on another languages), repetitions, false starts and self-corrections. This transcript may be quoted or used as a record, so do not clean it up.
+7.  **No Restructuring**: Do not turn spoken enumerations into lists and do not reorder or merge sentences. Only add punctuation and paragraphs.
+8.  **Numbers**: Write numbers the way they were said; use digits only where the speaker clearly read out a figure.`;
+
+const notesModePrompt = `
+
+## Notes
+Also write the recording up as bullet notes in 'notes': one short point per item, in the order the points were made and in the language spoken. Keep names, numbers and dates exactly as said. Leave out greetings and filler, and never add anything that was not said.`;
+
+const actionsModePrompt = `
+
+## Action Items
+Also extract what the recording asks to be done, so it can be handed off as tasks:
+- 'actionItems': every task that was assigned, requested or promised. Give each its owner (the person who should do it, named as in the recording, or null if nobody was named) and its due date as said (e.g. "Friday", "by the end of the month", or null).
+- 'decisions': every decision that was made or agreed on.
+Write them in the language spoken, one short sentence each. Leave a list empty if there is nothing for it; never invent tasks, owners or dates.`;
+
+const modePrompts: Partial<Record<TranscriptionMode, string>> = {
+  notes: notesModePrompt,
+  actions: actionsModePrompt,
+};
+
+const trailingCharactersRule = `9.  **Trailing Characters**: Ensure that no extraneous characters, such as underscores (_) or other non-spoken symbols, are appended to the end of the transcription. The output should end cleanly with the last spoken word or standard punctuation.`;
+
+function buildTranscriptionPrompt(options: ProviderTranscribeOptions) {
+  const modeRules =
+    options.mode === 'verbatim' ? verbatimModeRules : cleanModeRules;
+  let prompt = `${baseTranscriptionPrompt}
+${modeRules}
+${trailingCharactersRule}`;
+
+  prompt += segmentsPrompt;
+  if (options.diarize) prompt += diarizationPrompt;
+  if (options.diarize && options.speakerContext) {
+    const { speakers, previousLines } = options.speakerContext;
+    prompt += `
+
+## Earlier Speakers
+This audio continues a recording in which these speakers were already heard: ${speakers.join(', ')}. The previous part ended with the lines below, and its last seconds are repeated at the start of this audio:
+${previousLines.join('\n')}
+Give every voice heard before the label it had. Number voices that were not heard before after the existing ones.`;
+  }
+  // Notes and action items take the place of the TLDR
+  const modePrompt = options.mode && modePrompts[options.mode];
+  if (modePrompt) prompt += modePrompt;
+
+  if (options.durationSeconds && options.speechSeconds !== undefined) {
+    prompt += `
+
+## Audio
+The recording is ${Math.round(options.durationSeconds)} seconds long and contains about ${Math.round(options.speechSeconds)} seconds of sound. Transcribe only words that are actually spoken; never invent text for silence, noise or music. If nothing intelligible is said, return an empty transcribedText.`;
+  }
+
+  if (options.vocabulary?.length) {
+    prompt += `
+
+## Vocabulary
+The speakers may mention these names and terms. When one of them is spoken, spell it exactly as written here, even if it sounds like a common word:
+${options.vocabulary.map((term) => `- ${term}`).join('\n')}`;
+  }
+
+  if (options.languageHint) {
+    prompt += `
+
+## Language Hint
+The speaker most likely speaks the language with ISO 639-1 code "${options.languageHint}". Use this as a hint for recognition, but always transcribe in the language actually spoken.`;
+  }
+
+  if (options.partial || options.tldrEnabled === false || modePrompt) {
+    prompt += `
+
+## TLDR
+Do not provide a tldr (return null).`;
+  } else {
+    prompt += `
+
+## TLDR
+If text is longer than ${options.tldrThreshold ?? 300} characters, provide a tldr summary of the transcription. The summary MUST:
+${tldrRules}`;
+  }
+
+  if (options.partial) {
+    prompt += partialChunkPrompt;
+  }
+  return prompt;
+}
+
+function buildSummaryPrompt(detail?: SummaryDetail) {
+  return `You summarize transcripts of voice recordings. You MUST use the 'outputSummary' tool to provide the summary. The summary MUST:
+${buildSummaryRules(detail)}`;
+}
+
+const translationSystemPrompt = `You translate transcripts of voice recordings. Translate the whole text faithfully into the requested language, keeping the speaker's first/third person perspective, tone, paragraphs and line breaks. Do not summarize, explain or add anything. You MUST use the 'outputTranslation' tool to provide the translation.`;
+
+const digestSystemPrompt = `You write digests of group chat conversations held in voice messages, for people who skipped them. You get the transcripts in order, each with its number, time and speaker.
+
+## Rules
+1. Group what was said by topic, in the order the topics first came up. Merge messages about the same topic even when they are far apart.
+2. For each topic write a few short points covering the decisions, questions, requests, plans and opinions. Leave out greetings and small talk.
+3. Credit every point to the speakers who made it, using the speaker names exactly as given.
+4. Write in the language most of the messages are in.
+5. Be concise: a point is one sentence, a topic title is a few words.
+6. You MUST use the 'outputDigest' tool to provide the digest.`;
+
+const geminiProviderOptions = {
+  google: {
+    thinkingConfig: {
+      thinkingBudget: 1024,
+      includeThoughts: false,
+    },
+    responseModalities: ['TEXT'],
+  } satisfies GoogleGenerativeAIProviderOptions,
+};
+
+const transcriptionSchema = z.object({
+  transcribedText: z
+    .string()
+    .describe(
+      'The complete and accurately transcribed text from the audio, in the original language, with proper punctuation.',
+    ),
+  tldr: z
+    .string()
+    .nullable()
+    .describe(
+      'A short summary of the transcription, in the original language, with proper punctuation (Optional).',
+    ),
+  segments: z
+    .array(
+      z.object({
+        start: z.number().describe('Start of the segment, in seconds.'),
+        end: z.number().describe('End of the segment, in seconds.'),
+        text: z.string().describe('Text spoken in the segment.'),
+        speaker: z
+          .string()
+          .nullable()
+          .describe(
+            'Who speaks in the segment, e.g. "Speaker 1", when asked to label speakers (Optional).',
+          ),
+      }),
+    )
+    .nullable()
+    .describe(
+      'The transcription split into consecutive timestamped segments (Optional).',
+    ),
+  language: z
+    .string()
+    .nullable()
+    .describe(
+      'ISO 639-1 code of the language mostly spoken in the audio, e.g. "en" (Optional).',
+    ),
+});
+
+const notesSchema = transcriptionSchema.extend({
+  notes: z
+    .array(z.string())
+    .describe(
+      'The content as bullet notes, one short point per item, in the original language.',
+    ),
+});
+
+const actionsSchema = transcriptionSchema.extend({
+  actionItems: z
+    .array(
+      z.object({
+        task: z.string().describe('What has to be done, as one sentence.'),
+        owner: z
+          .string()
+          .nullable()
+          .describe('Who should do it, as named in the recording (Optional).'),
+        due: z
+          .string()
+          .nullable()
+          .describe('When it is due, as said in the recording (Optional).'),
+      }),
+    )
+    .describe('Every task that was assigned, requested or promised.'),
+  decisions: z
+    .array(z.string())
+    .describe('Every decision that was made or agreed on.'),
+});
+
+type TranscriptionToolOutput = z.infer<typeof transcriptionSchema> &
+  Partial<z.infer<typeof notesSchema>> &
+  Partial<z.infer<typeof actionsSchema>>;
+
+/** Each mode's tool asks for the transcript plus the mode's own output. */
+function transcriptionToolSchema(mode?: TranscriptionMode) {
+  if (mode === 'notes') return notesSchema;
+  if (mode === 'actions') return actionsSchema;
+  return transcriptionSchema;
+}
+
+async function transcribeWithGemini(
+  audioBuffer: Buffer,
+  mimeType: string,
+  options: ProviderTranscribeOptions = {},
+): Promise<TranscriptionResult> {
+  log(`Starting audio transcription with Gemini for mimeType: ${mimeType}...`);
+
+  const userMessageContent: CoreMessage = {
+    role: 'user',
+    content: [
+      {
+        type: 'text',
+        text: 'Transcribe the audio and provide the result using the outputTranscription tool.',
+      },
+      {
+        type: 'file',
+        mimeType: mimeType, // Use the passed mimeType
+        data: audioBuffer,
+      },
+    ],
+  };
+
+  // The signal also cancels the request on timeout, so a retry never
+  // runs alongside an abandoned one
+  const { toolCalls, usage, finishReason } = await generateText({
+    model: google(options.model || geminiModelId),
+    providerOptions: geminiProviderOptions,
+    system: buildTranscriptionPrompt(options),
+    messages: [userMessageContent],
+    toolChoice: { type: 'tool', toolName: 'outputTranscription' },
+    abortSignal: AbortSignal.timeout(transcriptionTimeoutMs),
+    tools: {
+      outputTranscription: {
+        description:
+          "Outputs the final transcribed text from the audio, ensuring it's well-formatted and in the original language.",
+        parameters: transcriptionToolSchema(options.mode),
+      },
+    },
+  }).catch((error: unknown) => {
+    log(`Error during transcription: ${(error as Error).message}`);
+    throw toBotError(error);
+  });
+
+  recordTokenUsage('gemini', options.model || geminiModelId, usage);
+  const output = toolCalls[0]?.args as TranscriptionToolOutput | undefined;
+  // Without a tool call (e.g. blocked by safety filters) there is no
+  // transcript
+  if (!output) {
+    throw new ModelRefusalError(
+      `Gemini returned no transcription (finish reason: ${finishReason})`,
+    );
+  }
+  log('Transcription tool called by AI.');
+  const {
+    transcribedText,
+    tldr,
+    segments,
+    notes,
+    actionItems,
+    decisions,
+    language,
+  } = output;
+  return {
+    transcribedText,
+    tldr,
+    segments: segments?.length
+      ? segments.map(({ speaker, ...segment }) => ({
+          ...segment,
+          ...(options.diarize && speaker && { speaker }),
+        }))
+      : undefined,
+    ...(notes && { notes }),
+    ...(actionItems && {
+      actionItems: actionItems.map(({ task, owner, due }) => ({
+        task,
+        ...(owner && { owner }),
+        ...(due && { due }),
+      })),
+      decisions: decisions || [],
+    }),
+    ...(language && {
+      language: language.toLowerCase().split(/[-_]/)[0],
+    }),
+  };
+}
+
+async function summarizeWithGemini(
+  text: string,
+  options: ProviderTranscribeOptions & { detail?: SummaryDetail } = {},
+): Promise<string | null> {
+  log(
+    `Summarizing ${text.length} characters of transcript with Gemini (${options.detail || 'standard'})...`,
+  );
+
+  const { toolCalls, usage } = await generateText({
+    model: google(options.model || geminiModelId),
+    providerOptions: geminiProviderOptions,
+    system: buildSummaryPrompt(options.detail),
+    prompt: text,
+    toolChoice: { type: 'tool', toolName: 'outputSummary' },
+    abortSignal: AbortSignal.timeout(transcriptionTimeoutMs),
+    tools: {
+      outputSummary: {
+        description: 'Outputs the tldr summary of the transcript.',
+        parameters: z.object({
+          tldr: z
+            .string()
+            .describe(
+              'A short summary of the transcript, in its original language, with proper punctuation.',
+            ),
+        }),
+      },
+    },
+  });
+
+  recordTokenUsage('gemini', options.model || geminiModelId, usage);
+  const tldr = toolCalls[0]?.args.tldr?.trim();
+  return tldr || null;
+}
+
+async function translateWithGemini(
+  text: string,
+  targetLanguage: string,
+  options: ProviderTranscribeOptions = {},
+): Promise<string> {
+  log(
+    `Translating ${text.length} characters of transcript to ${targetLanguage} with Gemini...`,
+  );
+
+  const { toolCalls, usage } = await generateText({
+    model: google(options.model || geminiModelId),
+    providerOptions: geminiProviderOptions,
+    system: translationSystemPrompt,
+    prompt: `Target language: ${targetLanguage}\n\n${text}`,
+    toolChoice: { type: 'tool', toolName: 'outputTranslation' },
+    abortSignal: AbortSignal.timeout(transcriptionTimeoutMs),
+    tools: {
+      outputTranslation: {
+        description: 'Outputs the translated transcript.',
+        parameters: z.object({
+          translatedText: z
+            .string()
+            .describe('The full transcript translated to the target language.'),
+        }),
+      },
+    },
+  });
+
+  recordTokenUsage('gemini', options.model || geminiModelId, usage);
+  const translatedText = toolCalls[0]?.args.translatedText?.trim();
+  if (!translatedText) {
+    throw new ModelRefusalError('Gemini returned an empty translation');
+  }
+  return translatedText;
+}
+
+function formatDigestInput(messages: DigestMessage[]) {
+  return messages
+    .map(
+      ({ speaker, sentAt, text }, i) =>
+        `[#${i + 1} ${sentAt.toISOString().slice(0, 16).replace('T', ' ')} UTC] ${speaker}:\n${text}`,
+    )
+    .join('\n\n');
+}
+
+async function digestWithGemini(
+  messages: DigestMessage[],
+  options: ProviderTranscribeOptions = {},
+): Promise<ChatDigest> {
+  log(`Building a digest of ${messages.length} messages with Gemini...`);
+
+  const { toolCalls, usage } = await generateText({
+    model: google(options.model || geminiModelId),
+    providerOptions: geminiProviderOptions,
+    system: digestSystemPrompt,
+    prompt: formatDigestInput(messages),
+    toolChoice: { type: 'tool', toolName: 'outputDigest' },
+    abortSignal: AbortSignal.timeout(transcriptionTimeoutMs),
+    tools: {
+      outputDigest: {
+        description: 'Outputs the digest of the conversation, by topic.',
+        parameters: z.object({
+          topics: z
+            .array(
+              z.object({
+                title: z.string().describe('A short title for the topic.'),
+                points: z
+                  .array(
+                    z.object({
+                      speakers: z
+                        .array(z.string())
+                        .describe('Names of the speakers who made the point.'),
+                      text: z.string().describe('The point, in one sentence.'),
+                    }),
+                  )
+                  .describe('What was said about the topic.'),
+              }),
+            )
+            .describe('The topics discussed, in the order they came up.'),
+        }),
+      },
+    },
+  });
+
+  recordTokenUsage('gemini', options.model || geminiModelId, usage);
+  const topics = toolCalls[0]?.args.topics;
+  if (!topics?.length) {
+    throw new ModelRefusalError('Gemini returned an empty digest');
+  }
+  return { topics };
+}
+
+export const geminiProvider: TranscriptionProvider = {
+  name: 'gemini',
+  transcribe: transcribeWithGemini,
+  summarize: summarizeWithGemini,
+  translate: translateWithGemini,
+  digest: digestWithGemini,
+};
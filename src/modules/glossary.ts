@@ -0,0 +1,140 @@
+import { createJsonStore } from './jsonStore.js';
+import type { TranscriptionResult } from './transcriptionProviders.js';
+
+/** A chat's vocabulary: how names and jargon should be spelled. */
+export interface Glossary {
+  /** Preferred spellings, given to the model as a hint. */
+  terms: string[];
+  /** Exact replacements applied to every transcript: wrong -> right. */
+  replacements: Record<string, string>;
+}
+
+export const MAX_GLOSSARY_TERMS = 200;
+export const MAX_TERM_LENGTH = 60;
+
+const store = createJsonStore<Record<string, Glossary>>(
+  'glossary.json',
+  () => ({}),
+);
+
+export function getGlossary(chatId: number | string): Glossary {
+  const glossary = store.data[String(chatId)];
+  return {
+    terms: [...(glossary?.terms || [])],
+    replacements: { ...glossary?.replacements },
+  };
+}
+
+export function isGlossaryEmpty(glossary: Glossary) {
+  return !glossary.terms.length && !Object.keys(glossary.replacements).length;
+}
+
+function saveGlossary(chatId: number | string, glossary: Glossary) {
+  if (isGlossaryEmpty(glossary)) {
+    delete store.data[String(chatId)];
+  } else {
+    store.data[String(chatId)] = glossary;
+  }
+  store.save();
+}
+
+const sameTerm = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+
+/**
+ * Adds preferred spellings, replacing entries that differ only in case.
+ * Returns the terms that were new; stops at MAX_GLOSSARY_TERMS.
+ */
+export function addGlossaryTerms(chatId: number, terms: string[]): string[] {
+  const glossary = getGlossary(chatId);
+  const added: string[] = [];
+  for (const term of terms) {
+    const existing = glossary.terms.findIndex((known) => sameTerm(known, term));
+    if (existing >= 0) {
+      glossary.terms[existing] = term;
+      continue;
+    }
+    if (glossary.terms.length >= MAX_GLOSSARY_TERMS) break;
+    glossary.terms.push(term);
+    added.push(term);
+  }
+  saveGlossary(chatId, glossary);
+  return added;
+}
+
+/** Adds a replacement rule, and its right side as a preferred spelling. */
+export function addGlossaryReplacement(
+  chatId: number,
+  from: string,
+  to: string,
+) {
+  const glossary = getGlossary(chatId);
+  glossary.replacements[from] = to;
+  saveGlossary(chatId, glossary);
+  addGlossaryTerms(chatId, [to]);
+}
+
+/**
+ * Removes a preferred spelling and every replacement from or to it.
+ * Returns whether anything was removed.
+ */
+export function removeGlossaryEntry(chatId: number, entry: string) {
+  const glossary = getGlossary(chatId);
+  const terms = glossary.terms.filter((term) => !sameTerm(term, entry));
+  let removed = terms.length !== glossary.terms.length;
+  for (const [from, to] of Object.entries(glossary.replacements)) {
+    if (sameTerm(from, entry) || sameTerm(to, entry)) {
+      delete glossary.replacements[from];
+      removed = true;
+    }
+  }
+  saveGlossary(chatId, { ...glossary, terms });
+  return removed;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Applies the replacement rules to a text. Matches are exact and whole
+ * words only, so a rule for "ai" leaves "said" alone. Longer rules win.
+ */
+export function applyReplacements(
+  text: string,
+  replacements: Record<string, string>,
+) {
+  const rules = Object.keys(replacements).sort((a, b) => b.length - a.length);
+  if (!rules.length) return text;
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${rules.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'gu',
+  );
+  return text.replace(pattern, (match) => replacements[match] ?? match);
+}
+
+/** The result with the replacement rules applied to all of its text. */
+export function applyGlossary(
+  result: TranscriptionResult,
+  glossary: Glossary,
+): TranscriptionResult {
+  const { replacements } = glossary;
+  if (!Object.keys(replacements).length) return result;
+  const replace = (text: string) => applyReplacements(text, replacements);
+  return {
+    ...result,
+    transcribedText: replace(result.transcribedText),
+    tldr: result.tldr && replace(result.tldr),
+    segments: result.segments?.map((segment) => ({
+      ...segment,
+      text: replace(segment.text),
+    })),
+    notes: result.notes?.map(replace),
+    actionItems: result.actionItems?.map((item) => ({
+      ...item,
+      task: replace(item.task),
+      ...(item.owner && { owner: replace(item.owner) }),
+    })),
+    decisions: result.decisions?.map(replace),
+  };
+}
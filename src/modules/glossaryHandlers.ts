@@ -0,0 +1,192 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Chat, Message, User } from 'node-telegram-bot-api';
+import { accessDecision } from './accessControl.js';
+import { recentHistory } from './chatHistory.js';
+import { escapeHtml } from './formatter.js';
+import {
+  addGlossaryReplacement,
+  addGlossaryTerms,
+  getGlossary,
+  isGlossaryEmpty,
+  MAX_GLOSSARY_TERMS,
+  MAX_TERM_LENGTH,
+  removeGlossaryEntry,
+} from './glossary.js';
+import { localeFor, t } from './i18n.js';
+import { isChatAdmin, log } from './utils.js';
+
+const fullName = (user: User) =>
+  [user.first_name, user.last_name].filter(Boolean).join(' ');
+
+/**
+ * Names of the chat's members the bot can see: its admins, plus everyone
+ * in the transcript archive (Telegram doesn't list other members).
+ */
+async function memberNames(bot: TelegramBot, chat: Chat, sender?: User) {
+  const names = new Set<string>();
+  if (chat.type === 'private') {
+    if (sender) names.add(fullName(sender));
+  } else {
+    try {
+      const admins = await bot.getChatAdministrators(chat.id);
+      for (const { user } of admins) {
+        if (!user.is_bot) names.add(fullName(user));
+      }
+    } catch (error) {
+      log(
+        `Failed to list admins of chat ${chat.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+  for (const entry of recentHistory(chat.id)) names.add(entry.senderName);
+  return [...names].filter(
+    (name) => name.trim() && name.length <= MAX_TERM_LENGTH,
+  );
+}
+
+function renderGlossary(chatId: number, locale: string) {
+  const glossary = getGlossary(chatId);
+  if (isGlossaryEmpty(glossary)) {
+    return `${t(locale, 'glossaryEmpty')}\n\n${t(locale, 'glossaryUsage')}`;
+  }
+  const lines: string[] = [];
+  if (glossary.terms.length) {
+    lines.push(
+      t(locale, 'glossaryTerms'),
+      escapeHtml(glossary.terms.join(', ')),
+    );
+  }
+  const rules = Object.entries(glossary.replacements);
+  if (rules.length) {
+    if (lines.length) lines.push('');
+    lines.push(t(locale, 'glossaryReplacements'));
+    for (const [from, to] of rules) {
+      lines.push(`${escapeHtml(from)} → ${escapeHtml(to)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function handleGlossaryCommand(
+  bot: TelegramBot,
+  msg: Message,
+  args: string,
+) {
+  const chat = msg.chat;
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(chat.id, text, {
+      parse_mode: 'HTML',
+      reply_to_message_id: msg.message_id,
+    });
+
+  const [, subcommand = 'list', rest = ''] =
+    args.trim().match(/^(\S+)\s*([\s\S]*)$/) || [];
+  const action = subcommand.toLowerCase();
+  if (action === 'list') {
+    await reply(renderGlossary(chat.id, locale));
+    return;
+  }
+  if (!['add', 'remove', 'members'].includes(action)) {
+    await reply(t(locale, 'glossaryUsage'));
+    return;
+  }
+  if (!(await isChatAdmin(bot, chat, msg.from?.id))) {
+    await reply(t(locale, 'glossaryAdminOnly'));
+    return;
+  }
+
+  if (action === 'members') {
+    const added = addGlossaryTerms(
+      chat.id,
+      await memberNames(bot, chat, msg.from),
+    );
+    log(
+      `Added ${added.length} member names to the glossary of chat ${chat.id}`,
+    );
+    await reply(t(locale, 'glossaryMembersAdded', { count: added.length }));
+    return;
+  }
+
+  if (action === 'remove') {
+    const entry = rest.trim();
+    if (!entry) {
+      await reply(t(locale, 'glossaryUsage'));
+      return;
+    }
+    const removed = removeGlossaryEntry(chat.id, entry);
+    await reply(
+      t(locale, removed ? 'glossaryRemoved' : 'glossaryNotFound', {
+        entry: escapeHtml(entry),
+      }),
+    );
+    return;
+  }
+
+  const glossary = getGlossary(chat.id);
+  const rules = Object.keys(glossary.replacements);
+  const rule = rest.split('=>');
+  if (rule.length === 2) {
+    const [from, to] = rule.map((part) => part.trim());
+    if (!from || !to) {
+      await reply(t(locale, 'glossaryUsage'));
+      return;
+    }
+    if (from.length > MAX_TERM_LENGTH || to.length > MAX_TERM_LENGTH) {
+      await reply(t(locale, 'glossaryTooLong', { max: MAX_TERM_LENGTH }));
+      return;
+    }
+    if (!rules.includes(from) && rules.length >= MAX_GLOSSARY_TERMS) {
+      await reply(t(locale, 'glossaryFull', { max: MAX_GLOSSARY_TERMS }));
+      return;
+    }
+    addGlossaryReplacement(chat.id, from, to);
+    await reply(
+      t(locale, 'glossaryRuleAdded', {
+        from: escapeHtml(from),
+        to: escapeHtml(to),
+      }),
+    );
+    return;
+  }
+
+  const terms = rest
+    .split(/[,\n]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+  if (!terms.length || rule.length > 2) {
+    await reply(t(locale, 'glossaryUsage'));
+    return;
+  }
+  if (terms.some((term) => term.length > MAX_TERM_LENGTH)) {
+    await reply(t(locale, 'glossaryTooLong', { max: MAX_TERM_LENGTH }));
+    return;
+  }
+  const added = addGlossaryTerms(chat.id, terms);
+  if (added.length) {
+    await reply(
+      t(locale, 'glossaryAdded', { terms: escapeHtml(added.join(', ')) }),
+    );
+  } else if (glossary.terms.length >= MAX_GLOSSARY_TERMS) {
+    await reply(t(locale, 'glossaryFull', { max: MAX_GLOSSARY_TERMS }));
+  } else {
+    await reply(t(locale, 'glossaryNothingAdded'));
+  }
+}
+
+/**
+ * Registers /glossary: anyone can list the chat's glossary, admins can
+ * add and remove terms and replacement rules.
+ */
+export function registerGlossaryHandlers(bot: TelegramBot) {
+  bot.onText(/^\/glossary(?:@\w+)?(?:\s+([\s\S]*))?$/, async (msg, match) => {
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleGlossaryCommand(bot, msg, match?.[1] || '');
+    } catch (error) {
+      log(
+        `Failed to handle /glossary in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+}
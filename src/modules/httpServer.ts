@@ -0,0 +1,118 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { timingSafeEqual } from 'crypto';
+import type TelegramBot from 'node-telegram-bot-api';
+import { renderMetrics } from './metrics.js';
+import { log } from './utils.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpServerOptions {
+  port: number;
+  /** Reported by /readyz; true once the bot could reach Telegram. */
+  isReady: () => boolean;
+  /** Set in webhook mode: where Telegram POSTs updates. */
+  webhook?: {
+    path: string;
+    /** Expected in X-Telegram-Bot-Api-Secret-Token on every update. */
+    secretToken: string;
+    onUpdate: (update: TelegramBot.Update) => void;
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function secretMatches(
+  expected: string,
+  received: string | string[] | undefined,
+) {
+  if (typeof received !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Starts the HTTP server used for Telegram webhooks, load balancer probes
+ * (`/healthz`: process is up, `/readyz`: bot reached Telegram) and
+ * Prometheus scrapes (`/metrics`). Resolves once it is listening, and
+ * rejects if it can't listen (e.g. the port is taken).
+ */
+export function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/healthz') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/readyz') {
+      const ready = options.isReady();
+      res
+        .writeHead(ready ? 200 : 503, { 'Content-Type': 'text/plain' })
+        .end(ready ? 'ready' : 'not ready');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/metrics') {
+      res
+        .writeHead(200, {
+          'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        })
+        .end(renderMetrics());
+      return;
+    }
+
+    const webhook = options.webhook;
+    if (webhook && req.method === 'POST' && url.pathname === webhook.path) {
+      if (
+        !secretMatches(
+          webhook.secretToken,
+          req.headers['x-telegram-bot-api-secret-token'],
+        )
+      ) {
+        log('Rejected webhook request with invalid secret token');
+        res.writeHead(401).end();
+        return;
+      }
+
+      try {
+        const update = JSON.parse(await readBody(req)) as TelegramBot.Update;
+        // Acknowledge right away; handlers run asynchronously
+        res.writeHead(200).end();
+        webhook.onUpdate(update);
+      } catch (error) {
+        log(`Invalid webhook request: ${(error as Error).message}`);
+        if (!res.headersSent) res.writeHead(400).end();
+      }
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, () => {
+      server.off('error', reject);
+      log(`HTTP server listening on port ${options.port}`);
+      resolve(server);
+    });
+  });
+}
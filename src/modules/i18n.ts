@@ -0,0 +1,1119 @@
+import { existsSync, readFileSync } from 'fs';
+import { defaultLocale, i18nOverridesFile } from './config.js';
+import { getChatSettings } from './chatSettings.js';
+import { log } from './utils.js';
+
+/**
+ * English messages, the reference catalog: every key exists here, and
+ * other locales fall back to it. `{name}` placeholders are filled by t().
+ * Messages marked (HTML) are sent with parse_mode HTML.
+ */
+const en = {
+  welcome:
+    'Hello! I am a bot that transcribes voice messages, video notes (video circles), videos and audio files. Please give me admin rights to track all voice messages in the chat.',
+  rateLimited:
+    "You're sending media faster than I can transcribe it. Please wait {seconds}s and send it again.",
+  queueFull: "I'm too busy right now. Please try again in a few minutes.",
+  errorSilent:
+    "This message appears to be silent or doesn't contain audio. Please send a recording with speech.",
+  errorUnsupportedMode:
+    "This chat's transcription provider can't take notes or list action items. Pick another mode or provider in /settings.",
+  errorTooLong: 'This recording is too long for me to transcribe.',
+  errorFormat:
+    "I couldn't read this file's format. Please try another file or send a voice message instead.",
+  errorGeneric: "Sorry, I couldn't process your message. Please try again.",
+  errorDownload:
+    "I couldn't download this file from Telegram. Please try again.",
+  errorTimeout:
+    'Transcription took too long. Please try again, or send a shorter recording.',
+  errorRefused: 'The model declined to transcribe this recording.',
+  errorRateLimited:
+    "I'm getting too many requests right now. Please try again in a few minutes.",
+  retranscribeUsage:
+    'Reply /retranscribe to a voice message, video or audio file to transcribe it again. Add a mode to change the output: /retranscribe clean, verbatim, notes or actions.',
+  limitFileSize:
+    'This file is {size} MB, but I can only transcribe files up to {limit} MB.',
+  limitDuration:
+    'This recording is {minutes} minutes long, but I can only transcribe up to {limit} minutes.',
+  quotaUserDay:
+    'This would exceed your daily transcription quota of {limit} minutes ({left} minutes left). See /usage for details.',
+  quotaUserMonth:
+    'This would exceed your monthly transcription quota of {limit} minutes ({left} minutes left). See /usage for details.',
+  quotaChatDay:
+    "This would exceed this chat's daily transcription quota of {limit} minutes ({left} minutes left). See /usage for details.",
+  quotaChatMonth:
+    "This would exceed this chat's monthly transcription quota of {limit} minutes ({left} minutes left). See /usage for details.",
+  refusePrivate:
+    'Sorry, this bot is private. Ask its owner for access and give them your user ID: {userId}.',
+  refuseGroup:
+    "Sorry, this bot is private and isn't available in this chat. Goodbye!",
+  progressQueued: "Queued, position {position}. I'll reply when it's done.",
+  progressDownloading: 'Downloading…',
+  progressExtracting: 'Extracting audio…',
+  progressTranscribing: 'Transcribing…',
+  progressTranscribingChunk: 'Transcribing chunk {chunk}/{total}…',
+  progressSummarizing: 'Summarizing…',
+  progressTranslating: 'Translating…',
+  tldrLabel: 'TLDR:',
+  notesLabel: 'Notes:',
+  actionItemsLabel: 'Action items:',
+  actionItemsNone: 'No action items.',
+  actionItemDue: 'due {due}',
+  decisionsLabel: 'Decisions:',
+  detectedLanguage: 'Language: {language}',
+  translationLabel: 'Translation ({language}):',
+  originalLabel: 'Original text:',
+  transcriptAttached: 'The full transcript is attached.',
+  titleVideo: 'Video',
+  titleAudio: 'Audio file',
+  titleTranslation: 'Translation ({language})',
+  buttonRetranscribe: 'Re-transcribe ({mode})',
+  buttonTranslate: 'Translate',
+  buttonSummaryLess: 'Summary −',
+  buttonSummaryMore: 'Summary +',
+  buttonOriginal: 'Original only',
+  buttonBack: 'Back to transcript',
+  buttonDelete: 'Delete',
+  buttonSubtitles: 'Subtitles (.{format})',
+  summaryMostDetailed: 'This is already the most detailed summary.',
+  summaryShortest: 'This is already the shortest summary.',
+  summaryFailed: "Sorry, I couldn't summarize this transcript.",
+  actionSummarizing: 'Summarizing…',
+  actionTranslating: 'Translating to {language}…',
+  /** (HTML) */
+  translateUsage:
+    'Reply <code>/translate &lt;language code&gt;</code> to a voice message or its transcript, e.g. <code>/translate en</code>.',
+  actionRetranscribing: 'Transcribing again in {mode} mode…',
+  actionUnavailable: 'This transcript is no longer available.',
+  actionNotAllowed: 'Only the sender or a chat admin can do that.',
+  speakerRenameNotAllowed:
+    'Only the sender or a chat admin can rename speakers.',
+  actionBusy: 'Still working on the previous request…',
+  actionFailed: "Sorry, I couldn't update this transcript. Please try again.",
+  speakerUnknown:
+    'There is no {unknown} in this transcript. Speakers: {speakers}.',
+  subtitlesUsage:
+    'Reply /subtitles [srt|vtt] to a transcribed message or to my transcript.',
+  subtitlesNoTimestamps:
+    'This transcript has no timestamps. Try /retranscribe on the original message.',
+  subtitlesUnavailable:
+    'Subtitles are no longer available for this transcript.',
+  /** (HTML) */
+  digestUsage:
+    'Usage: <code>/summary [N]</code> for the last N voice messages, or <code>/summary 2h</code> (also <code>m</code>, <code>d</code>, <code>w</code>) for a time window.',
+  digestEmpty: 'No voice messages have been transcribed here yet.',
+  digestEmptyWindow:
+    'No voice messages were transcribed here in the last {window}.',
+  digestBusy: 'Still working on the previous summary…',
+  digestFailed: "Sorry, I couldn't summarize these messages. Please try again.",
+  /** (HTML) */
+  digestHeader:
+    '<b>Digest</b> · voice messages: {count} · speakers: {speakers}',
+  /** (HTML) */
+  digestHeaderWindow:
+    '<b>Digest of the last {window}</b> · voice messages: {count} · speakers: {speakers}',
+  /** (HTML) */
+  searchUsage: 'Usage: <code>/search &lt;words&gt;</code>',
+  searchNothing: 'Nothing found for “{query}”.',
+  /** (HTML) */
+  searchFound: '<b>Transcripts found for “{query}”: {total}</b>',
+  searchShowing: '(showing {shown})',
+  /** (HTML) */
+  exportUsage: 'Usage: <code>/export [md|json]</code>',
+  exportEmpty: 'There are no stored transcripts in this chat.',
+  purgeAdminOnly: 'Only chat admins can purge stored transcripts.',
+  /** (HTML) */
+  purgeConfirm:
+    'This deletes all stored transcripts of this chat ({count}). Send <code>/purge confirm</code> to proceed.',
+  /** (HTML) */
+  purgeRetentionDays:
+    'Transcripts are kept for {days} days; change that with <code>/settings retention &lt;days|off&gt;</code>.',
+  /** (HTML) */
+  purgeRetentionFull:
+    'Transcripts are kept until the archive is full; limit that with <code>/settings retention &lt;days&gt;</code>.',
+  purgeDone: 'Deleted stored transcripts: {count}.',
+  /** (HTML) */
+  glossaryUsage:
+    'Usage:\n<code>/glossary</code> – show the glossary\n<code>/glossary add &lt;term&gt;, &lt;term&gt;</code> – add preferred spellings\n<code>/glossary add &lt;wrong&gt; =&gt; &lt;right&gt;</code> – always replace a spelling\n<code>/glossary remove &lt;term&gt;</code> – remove a term or replacement\n<code>/glossary members</code> – add the names of chat members',
+  glossaryEmpty: 'The glossary of this chat is empty.',
+  /** (HTML) */
+  glossaryTerms: '<b>Preferred spellings</b>',
+  /** (HTML) */
+  glossaryReplacements: '<b>Replacements</b>',
+  glossaryAdminOnly: 'Only chat admins can change the glossary.',
+  glossaryAdded: 'Added to the glossary: {terms}.',
+  glossaryNothingAdded: 'These terms are already in the glossary.',
+  glossaryFull: 'The glossary is full ({max} entries). Remove some first.',
+  glossaryTooLong: 'Terms can be at most {max} characters long.',
+  glossaryRuleAdded: '“{from}” will be replaced with “{to}”.',
+  glossaryRemoved: 'Removed “{entry}” from the glossary.',
+  glossaryNotFound: '“{entry}” is not in the glossary.',
+  glossaryMembersAdded: 'Names of chat members added: {count}.',
+  /** (HTML) */
+  settingsTitle: '<b>Transcription settings for this chat</b>',
+  settingsTldr: 'TLDR: {value}',
+  settingsTldrOn: 'on (over {threshold} characters)',
+  settingsOn: 'on',
+  settingsOff: 'off',
+  settingsAuto: 'auto',
+  settingsDefault: 'default',
+  settingsDefaultValue: '{value} (default)',
+  settingsMode: 'Mode: {value}',
+  settingsSpeakers: 'Speaker labels: {value}',
+  settingsLanguageHint: 'Language hint: {value}',
+  settingsModel: 'Model: {value}',
+  settingsProvider: 'Provider: {value}',
+  settingsArchive: 'Transcript archive: {value}',
+  settingsArchiveDays: 'kept for {days} days',
+  settingsArchiveEntries: 'last {count} kept',
+  settingsInterface: 'Interface language: {value}',
+  settingsInterfaceUser: "each user's own",
+  settingsTranslate: 'Auto-translate: {value}',
+  settingsTranslateInto: 'into {language}',
+  /** (HTML) */
+  settingsHint:
+    'Tap a button to change a setting, or use <code>/settings mode &lt;mode&gt;</code>, <code>/settings language &lt;code&gt;</code>, <code>/settings threshold &lt;characters&gt;</code>, <code>/settings retention &lt;days|off&gt;</code>, <code>/settings interface &lt;code|auto&gt;</code> and <code>/settings translate &lt;code|off&gt;</code>.',
+  settingsButtonThreshold: 'Threshold: {value}',
+  settingsButtonSpeakers: 'Speakers: {value}',
+  settingsButtonLanguage: 'Language: {value}',
+  settingsButtonReset: 'Reset',
+  settingsButtonClose: 'Close',
+  settingsAdminOnly: 'Only chat admins can change settings.',
+  settingsUsage:
+    'Usage: /settings, /settings mode <{modes}>, /settings language <code|auto>, /settings threshold <characters>, /settings retention <days|off>, /settings interface <{locales}|auto>, /settings translate <code|off>',
+  /** (HTML) */
+  usageTitleUser: '<b>Your usage</b>',
+  /** (HTML) */
+  usageTitleChat: '<b>This chat</b>',
+  usageToday: 'Today: {totals}',
+  usageThisMonth: 'This month: {totals}',
+  usageTotals:
+    '{transcriptions} transcriptions, {minutes} min, {megabytes} MB, {tokens} tokens',
+  usageQuota: '(quota: {used}/{quota} min)',
+  usageModels: 'Models this month: {models}',
+  /** (HTML) */
+  usageTopHint: 'Use <code>/usage top [day|month]</code> for everyone.',
+  usageOwnerOnly: 'Only the bot owner can see the top consumers.',
+  /** (HTML) */
+  usageTopDay: '<b>Top consumers today</b>',
+  /** (HTML) */
+  usageTopMonth: '<b>Top consumers this month</b>',
+  /** (HTML) */
+  usageUsers: '<i>Users</i>',
+  /** (HTML) */
+  usageChats: '<i>Chats</i>',
+  usageNone: 'none yet',
+  ownerOnly: 'Only the bot owner can use this command.',
+  /** (HTML) */
+  accessUsage: 'Usage: <code>/{command} [user or chat ID]</code>',
+  accessUser: 'user {id}',
+  accessChat: 'chat {id}',
+  accessAllowed: 'Allowed {target}.',
+  accessDenied: 'Denied {target}.',
+  accessOwnerNotDenied: "The owner can't be denied.",
+  accessPrivateLeave: "I can't leave a private chat.",
+  accessLeaving: 'Leaving {target}.',
+  chatsNone: 'No chats seen yet.',
+  /** (HTML) */
+  chatsTitle: '<b>Chats ({mode} mode)</b>',
+  /** (HTML) */
+  chatsLine: '{chat}: {status}, last seen {date}',
+  chatStatusDenied: 'denied',
+  chatStatusAllowed: 'allowed',
+  chatStatusOpen: 'open',
+  chatStatusNotAllowed: 'not allowed',
+  chatStatusLeft: '{status}, left',
+};
+
+export type MessageKey = keyof typeof en;
+type Catalog = Partial<Record<MessageKey, string>>;
+
+const ru: Catalog = {
+  welcome:
+    'Привет! Я бот, который расшифровывает голосовые сообщения, видеосообщения (кружки), видео и аудиофайлы. Дайте мне права администратора, чтобы я видел все голосовые сообщения в чате.',
+  rateLimited:
+    'Вы отправляете медиа быстрее, чем я успеваю их расшифровывать. Подождите {seconds} с и отправьте снова.',
+  queueFull: 'Сейчас я слишком занят. Попробуйте через несколько минут.',
+  errorSilent:
+    'Похоже, в этом сообщении тишина или нет звука. Пришлите запись с речью.',
+  errorUnsupportedMode:
+    'Провайдер расшифровки в этом чате не умеет составлять заметки и списки задач. Выберите другой режим или провайдера в /settings.',
+  errorTooLong: 'Эта запись слишком длинная для расшифровки.',
+  errorFormat:
+    'Не удалось прочитать формат файла. Попробуйте другой файл или отправьте голосовое сообщение.',
+  errorGeneric:
+    'Извините, не удалось обработать сообщение. Попробуйте ещё раз.',
+  errorDownload: 'Не удалось скачать файл из Telegram. Попробуйте ещё раз.',
+  errorTimeout:
+    'Расшифровка заняла слишком много времени. Попробуйте ещё раз или отправьте запись покороче.',
+  errorRefused: 'Модель отказалась расшифровывать эту запись.',
+  errorRateLimited:
+    'Сейчас слишком много запросов. Попробуйте через несколько минут.',
+  retranscribeUsage:
+    'Ответьте /retranscribe на голосовое сообщение, видео или аудиофайл, чтобы расшифровать его заново. Добавьте режим, чтобы изменить результат: /retranscribe clean, verbatim, notes или actions.',
+  limitFileSize:
+    'Размер файла {size} МБ, а я расшифровываю файлы до {limit} МБ.',
+  limitDuration:
+    'Длительность записи {minutes} мин, а я расшифровываю записи до {limit} мин.',
+  quotaUserDay:
+    'Это превысит ваш дневной лимит расшифровки в {limit} мин (осталось {left} мин). Подробнее: /usage.',
+  quotaUserMonth:
+    'Это превысит ваш месячный лимит расшифровки в {limit} мин (осталось {left} мин). Подробнее: /usage.',
+  quotaChatDay:
+    'Это превысит дневной лимит расшифровки этого чата в {limit} мин (осталось {left} мин). Подробнее: /usage.',
+  quotaChatMonth:
+    'Это превысит месячный лимит расшифровки этого чата в {limit} мин (осталось {left} мин). Подробнее: /usage.',
+  refusePrivate:
+    'Извините, это закрытый бот. Попросите доступ у его владельца и сообщите ему ваш ID: {userId}.',
+  refuseGroup:
+    'Извините, это закрытый бот, и в этом чате он недоступен. До свидания!',
+  progressQueued: 'В очереди, позиция {position}. Отвечу, когда будет готово.',
+  progressDownloading: 'Скачиваю…',
+  progressExtracting: 'Извлекаю звук…',
+  progressTranscribing: 'Расшифровываю…',
+  progressTranscribingChunk: 'Расшифровываю часть {chunk}/{total}…',
+  progressSummarizing: 'Составляю краткое содержание…',
+  progressTranslating: 'Перевожу…',
+  tldrLabel: 'Кратко:',
+  notesLabel: 'Заметки:',
+  actionItemsLabel: 'Задачи:',
+  actionItemsNone: 'Задач нет.',
+  actionItemDue: 'срок: {due}',
+  decisionsLabel: 'Решения:',
+  detectedLanguage: 'Язык: {language}',
+  translationLabel: 'Перевод ({language}):',
+  originalLabel: 'Полный текст:',
+  transcriptAttached: 'Полная расшифровка во вложении.',
+  titleVideo: 'Видео',
+  titleAudio: 'Аудиофайл',
+  titleTranslation: 'Перевод ({language})',
+  buttonRetranscribe: 'Заново ({mode})',
+  buttonTranslate: 'Перевести',
+  buttonSummaryLess: 'Короче',
+  buttonSummaryMore: 'Подробнее',
+  buttonOriginal: 'Только текст',
+  buttonBack: 'К расшифровке',
+  buttonDelete: 'Удалить',
+  buttonSubtitles: 'Субтитры (.{format})',
+  summaryMostDetailed: 'Это уже самое подробное изложение.',
+  summaryShortest: 'Это уже самое короткое изложение.',
+  summaryFailed: 'Извините, не удалось составить краткое содержание.',
+  actionSummarizing: 'Составляю краткое содержание…',
+  actionTranslating: 'Перевожу на {language}…',
+  translateUsage:
+    'Ответьте <code>/translate &lt;код языка&gt;</code> на голосовое сообщение или его расшифровку, например <code>/translate en</code>.',
+  actionRetranscribing: 'Расшифровываю заново в режиме {mode}…',
+  actionUnavailable: 'Эта расшифровка больше недоступна.',
+  actionNotAllowed:
+    'Это может сделать только отправитель или администратор чата.',
+  speakerRenameNotAllowed:
+    'Переименовывать говорящих может только отправитель или администратор чата.',
+  actionBusy: 'Ещё обрабатываю предыдущий запрос…',
+  actionFailed:
+    'Извините, не удалось обновить расшифровку. Попробуйте ещё раз.',
+  speakerUnknown: 'В этой расшифровке нет {unknown}. Говорящие: {speakers}.',
+  subtitlesUsage:
+    'Ответьте /subtitles [srt|vtt] на расшифрованное сообщение или на мою расшифровку.',
+  subtitlesNoTimestamps:
+    'В этой расшифровке нет временных меток. Попробуйте /retranscribe на исходном сообщении.',
+  subtitlesUnavailable: 'Субтитры для этой расшифровки больше недоступны.',
+  digestUsage:
+    '<code>/summary [N]</code> — последние N голосовых сообщений, <code>/summary 2h</code> (также <code>m</code>, <code>d</code>, <code>w</code>) — за период.',
+  digestEmpty: 'Здесь ещё не расшифровано ни одного голосового сообщения.',
+  digestEmptyWindow:
+    'За последние {window} здесь не было расшифрованных голосовых сообщений.',
+  digestBusy: 'Ещё составляю предыдущую сводку…',
+  digestFailed: 'Извините, не удалось составить сводку. Попробуйте ещё раз.',
+  digestHeader:
+    '<b>Сводка</b> · голосовых сообщений: {count} · говорящих: {speakers}',
+  digestHeaderWindow:
+    '<b>Сводка за последние {window}</b> · голосовых сообщений: {count} · говорящих: {speakers}',
+  searchUsage: '<code>/search &lt;слова&gt;</code>',
+  searchNothing: 'По запросу «{query}» ничего не найдено.',
+  searchFound: '<b>Найдено расшифровок по запросу «{query}»: {total}</b>',
+  searchShowing: '(показано {shown})',
+  exportUsage: '<code>/export [md|json]</code>',
+  exportEmpty: 'В этом чате нет сохранённых расшифровок.',
+  purgeAdminOnly:
+    'Удалять сохранённые расшифровки могут только администраторы чата.',
+  purgeConfirm:
+    'Будут удалены все сохранённые расшифровки этого чата ({count}). Отправьте <code>/purge confirm</code>, чтобы продолжить.',
+  purgeRetentionDays:
+    'Расшифровки хранятся {days} дн.; изменить: <code>/settings retention &lt;дни|off&gt;</code>.',
+  purgeRetentionFull:
+    'Расшифровки хранятся, пока архив не заполнится; ограничить: <code>/settings retention &lt;дни&gt;</code>.',
+  purgeDone: 'Удалено сохранённых расшифровок: {count}.',
+  glossaryUsage:
+    'Использование:\n<code>/glossary</code> – показать глоссарий\n<code>/glossary add &lt;термин&gt;, &lt;термин&gt;</code> – добавить правильные написания\n<code>/glossary add &lt;неверно&gt; =&gt; &lt;верно&gt;</code> – всегда заменять написание\n<code>/glossary remove &lt;термин&gt;</code> – удалить термин или замену\n<code>/glossary members</code> – добавить имена участников чата',
+  glossaryEmpty: 'Глоссарий этого чата пуст.',
+  glossaryTerms: '<b>Правильные написания</b>',
+  glossaryReplacements: '<b>Замены</b>',
+  glossaryAdminOnly: 'Менять глоссарий могут только администраторы чата.',
+  glossaryAdded: 'Добавлено в глоссарий: {terms}.',
+  glossaryNothingAdded: 'Эти термины уже есть в глоссарии.',
+  glossaryFull:
+    'Глоссарий заполнен ({max} записей). Сначала удалите что-нибудь.',
+  glossaryTooLong: 'Термин может быть не длиннее {max} символов.',
+  glossaryRuleAdded: '«{from}» будет заменяться на «{to}».',
+  glossaryRemoved: '«{entry}» удалено из глоссария.',
+  glossaryNotFound: '«{entry}» нет в глоссарии.',
+  glossaryMembersAdded: 'Добавлено имён участников чата: {count}.',
+  settingsTitle: '<b>Настройки расшифровки в этом чате</b>',
+  settingsTldr: 'TLDR: {value}',
+  settingsTldrOn: 'вкл. (длиннее {threshold} символов)',
+  settingsOn: 'вкл.',
+  settingsOff: 'выкл.',
+  settingsAuto: 'авто',
+  settingsDefault: 'по умолчанию',
+  settingsDefaultValue: '{value} (по умолчанию)',
+  settingsMode: 'Режим: {value}',
+  settingsSpeakers: 'Метки говорящих: {value}',
+  settingsLanguageHint: 'Подсказка языка: {value}',
+  settingsModel: 'Модель: {value}',
+  settingsProvider: 'Провайдер: {value}',
+  settingsArchive: 'Архив расшифровок: {value}',
+  settingsArchiveDays: 'хранится {days} дн.',
+  settingsArchiveEntries: 'хранятся последние {count}',
+  settingsInterface: 'Язык интерфейса: {value}',
+  settingsInterfaceUser: 'у каждого свой',
+  settingsTranslate: 'Автоперевод: {value}',
+  settingsTranslateInto: 'на {language}',
+  settingsHint:
+    'Нажмите кнопку, чтобы изменить настройку, или используйте <code>/settings mode &lt;режим&gt;</code>, <code>/settings language &lt;код&gt;</code>, <code>/settings threshold &lt;символы&gt;</code>, <code>/settings retention &lt;дни|off&gt;</code>, <code>/settings interface &lt;код|auto&gt;</code> и <code>/settings translate &lt;код|off&gt;</code>.',
+  settingsButtonThreshold: 'Порог: {value}',
+  settingsButtonSpeakers: 'Говорящие: {value}',
+  settingsButtonLanguage: 'Язык: {value}',
+  settingsButtonReset: 'Сбросить',
+  settingsButtonClose: 'Закрыть',
+  settingsAdminOnly: 'Менять настройки могут только админы чата.',
+  settingsUsage:
+    'Использование: /settings, /settings mode <{modes}>, /settings language <код|auto>, /settings threshold <символы>, /settings retention <дни|off>, /settings interface <{locales}|auto>, /settings translate <код|off>',
+  usageTitleUser: '<b>Ваше использование</b>',
+  usageTitleChat: '<b>Этот чат</b>',
+  usageToday: 'Сегодня: {totals}',
+  usageThisMonth: 'В этом месяце: {totals}',
+  usageTotals:
+    'расшифровок: {transcriptions}, {minutes} мин, {megabytes} МБ, токенов: {tokens}',
+  usageQuota: '(квота: {used}/{quota} мин)',
+  usageModels: 'Модели в этом месяце: {models}',
+  usageTopHint:
+    'Используйте <code>/usage top [day|month]</code>, чтобы увидеть всех.',
+  usageOwnerOnly: 'Самых активных пользователей видит только владелец бота.',
+  usageTopDay: '<b>Самые активные сегодня</b>',
+  usageTopMonth: '<b>Самые активные в этом месяце</b>',
+  usageUsers: '<i>Пользователи</i>',
+  usageChats: '<i>Чаты</i>',
+  usageNone: 'пока никого',
+  ownerOnly: 'Эта команда доступна только владельцу бота.',
+  accessUsage:
+    'Использование: <code>/{command} [ID пользователя или чата]</code>',
+  accessUser: 'пользователь {id}',
+  accessChat: 'чат {id}',
+  accessAllowed: 'Разрешено: {target}.',
+  accessDenied: 'Запрещено: {target}.',
+  accessOwnerNotDenied: 'Владельцу бота нельзя запретить доступ.',
+  accessPrivateLeave: 'Я не могу покинуть личный чат.',
+  accessLeaving: 'Покидаю: {target}.',
+  chatsNone: 'Чатов пока не было.',
+  chatsTitle: '<b>Чаты (режим {mode})</b>',
+  chatsLine: '{chat}: {status}, последняя активность {date}',
+  chatStatusDenied: 'запрещён',
+  chatStatusAllowed: 'разрешён',
+  chatStatusOpen: 'открыт',
+  chatStatusNotAllowed: 'не разрешён',
+  chatStatusLeft: '{status}, покинут',
+};
+
+const uk: Catalog = {
+  welcome:
+    'Привіт! Я бот, який розшифровує голосові повідомлення, відеоповідомлення (кружечки), відео та аудіофайли. Надайте мені права адміністратора, щоб я бачив усі голосові повідомлення в чаті.',
+  rateLimited:
+    'Ви надсилаєте медіа швидше, ніж я встигаю їх розшифровувати. Зачекайте {seconds} с і надішліть знову.',
+  queueFull: 'Зараз я занадто зайнятий. Спробуйте за кілька хвилин.',
+  errorSilent:
+    'Схоже, у цьому повідомленні тиша або немає звуку. Надішліть запис із мовленням.',
+  errorUnsupportedMode:
+    'Провайдер розшифрування в цьому чаті не вміє складати нотатки та списки завдань. Виберіть інший режим або провайдера в /settings.',
+  errorTooLong: 'Цей запис задовгий для розшифрування.',
+  errorFormat:
+    'Не вдалося прочитати формат файлу. Спробуйте інший файл або надішліть голосове повідомлення.',
+  errorGeneric: 'Вибачте, не вдалося обробити повідомлення. Спробуйте ще раз.',
+  errorDownload: 'Не вдалося завантажити файл із Telegram. Спробуйте ще раз.',
+  errorTimeout:
+    'Розшифрування тривало надто довго. Спробуйте ще раз або надішліть коротший запис.',
+  errorRefused: 'Модель відмовилася розшифровувати цей запис.',
+  errorRateLimited: 'Зараз забагато запитів. Спробуйте за кілька хвилин.',
+  retranscribeUsage:
+    'Дайте відповідь /retranscribe на голосове повідомлення, відео чи аудіофайл, щоб розшифрувати його знову. Додайте режим, щоб змінити результат: /retranscribe clean, verbatim, notes або actions.',
+  limitFileSize: 'Розмір файлу {size} МБ, а я розшифровую файли до {limit} МБ.',
+  limitDuration:
+    'Тривалість запису {minutes} хв, а я розшифровую записи до {limit} хв.',
+  quotaUserDay:
+    'Це перевищить ваш денний ліміт розшифрування в {limit} хв (залишилось {left} хв). Докладніше: /usage.',
+  quotaUserMonth:
+    'Це перевищить ваш місячний ліміт розшифрування в {limit} хв (залишилось {left} хв). Докладніше: /usage.',
+  quotaChatDay:
+    'Це перевищить денний ліміт розшифрування цього чату в {limit} хв (залишилось {left} хв). Докладніше: /usage.',
+  quotaChatMonth:
+    'Це перевищить місячний ліміт розшифрування цього чату в {limit} хв (залишилось {left} хв). Докладніше: /usage.',
+  refusePrivate:
+    'Вибачте, це закритий бот. Попросіть доступ у його власника й повідомте йому ваш ID: {userId}.',
+  refuseGroup:
+    'Вибачте, це закритий бот, і в цьому чаті він недоступний. До побачення!',
+  progressQueued: 'У черзі, позиція {position}. Відповім, щойно буде готово.',
+  progressDownloading: 'Завантажую…',
+  progressExtracting: 'Видобуваю звук…',
+  progressTranscribing: 'Розшифровую…',
+  progressTranscribingChunk: 'Розшифровую частину {chunk}/{total}…',
+  progressSummarizing: 'Складаю короткий зміст…',
+  progressTranslating: 'Перекладаю…',
+  tldrLabel: 'Коротко:',
+  notesLabel: 'Нотатки:',
+  actionItemsLabel: 'Завдання:',
+  actionItemsNone: 'Завдань немає.',
+  actionItemDue: 'термін: {due}',
+  decisionsLabel: 'Рішення:',
+  detectedLanguage: 'Мова: {language}',
+  translationLabel: 'Переклад ({language}):',
+  originalLabel: 'Повний текст:',
+  transcriptAttached: 'Повна розшифровка у вкладенні.',
+  titleVideo: 'Відео',
+  titleAudio: 'Аудіофайл',
+  titleTranslation: 'Переклад ({language})',
+  buttonRetranscribe: 'Знову ({mode})',
+  buttonTranslate: 'Перекласти',
+  buttonSummaryLess: 'Коротше',
+  buttonSummaryMore: 'Докладніше',
+  buttonOriginal: 'Лише текст',
+  buttonBack: 'До розшифровки',
+  buttonDelete: 'Видалити',
+  buttonSubtitles: 'Субтитри (.{format})',
+  summaryMostDetailed: 'Це вже найдокладніший виклад.',
+  summaryShortest: 'Це вже найкоротший виклад.',
+  summaryFailed: 'Вибачте, не вдалося скласти короткий зміст.',
+  actionSummarizing: 'Складаю короткий зміст…',
+  actionTranslating: 'Перекладаю на {language}…',
+  translateUsage:
+    'Дайте відповідь <code>/translate &lt;код мови&gt;</code> на голосове повідомлення або його розшифровку, наприклад <code>/translate en</code>.',
+  actionRetranscribing: 'Розшифровую знову в режимі {mode}…',
+  actionUnavailable: 'Ця розшифровка більше недоступна.',
+  actionNotAllowed: 'Це може зробити лише відправник або адміністратор чату.',
+  speakerRenameNotAllowed:
+    'Перейменовувати мовців може лише відправник або адміністратор чату.',
+  actionBusy: 'Ще обробляю попередній запит…',
+  actionFailed: 'Вибачте, не вдалося оновити розшифровку. Спробуйте ще раз.',
+  speakerUnknown: 'У цій розшифровці немає {unknown}. Мовці: {speakers}.',
+  subtitlesUsage:
+    'Дайте відповідь /subtitles [srt|vtt] на розшифроване повідомлення або на мою розшифровку.',
+  subtitlesNoTimestamps:
+    'У цій розшифровці немає часових міток. Спробуйте /retranscribe на вихідному повідомленні.',
+  subtitlesUnavailable: 'Субтитри для цієї розшифровки більше недоступні.',
+  digestUsage:
+    '<code>/summary [N]</code> — останні N голосових повідомлень, <code>/summary 2h</code> (також <code>m</code>, <code>d</code>, <code>w</code>) — за період.',
+  digestEmpty: 'Тут ще не розшифровано жодного голосового повідомлення.',
+  digestEmptyWindow:
+    'За останні {window} тут не було розшифрованих голосових повідомлень.',
+  digestBusy: 'Ще складаю попереднє зведення…',
+  digestFailed: 'Вибачте, не вдалося скласти зведення. Спробуйте ще раз.',
+  digestHeader:
+    '<b>Зведення</b> · голосових повідомлень: {count} · мовців: {speakers}',
+  digestHeaderWindow:
+    '<b>Зведення за останні {window}</b> · голосових повідомлень: {count} · мовців: {speakers}',
+  searchUsage: '<code>/search &lt;слова&gt;</code>',
+  searchNothing: 'За запитом «{query}» нічого не знайдено.',
+  searchFound: '<b>Знайдено розшифровок за запитом «{query}»: {total}</b>',
+  searchShowing: '(показано {shown})',
+  exportUsage: '<code>/export [md|json]</code>',
+  exportEmpty: 'У цьому чаті немає збережених розшифровок.',
+  purgeAdminOnly:
+    'Видаляти збережені розшифровки можуть лише адміністратори чату.',
+  purgeConfirm:
+    'Буде видалено всі збережені розшифровки цього чату ({count}). Надішліть <code>/purge confirm</code>, щоб продовжити.',
+  purgeRetentionDays:
+    'Розшифровки зберігаються {days} дн.; змінити: <code>/settings retention &lt;дні|off&gt;</code>.',
+  purgeRetentionFull:
+    'Розшифровки зберігаються, доки архів не заповниться; обмежити: <code>/settings retention &lt;дні&gt;</code>.',
+  purgeDone: 'Видалено збережених розшифровок: {count}.',
+  glossaryUsage:
+    'Використання:\n<code>/glossary</code> – показати глосарій\n<code>/glossary add &lt;термін&gt;, &lt;термін&gt;</code> – додати правильні написання\n<code>/glossary add &lt;неправильно&gt; =&gt; &lt;правильно&gt;</code> – завжди замінювати написання\n<code>/glossary remove &lt;термін&gt;</code> – видалити термін або заміну\n<code>/glossary members</code> – додати імена учасників чату',
+  glossaryEmpty: 'Глосарій цього чату порожній.',
+  glossaryTerms: '<b>Правильні написання</b>',
+  glossaryReplacements: '<b>Заміни</b>',
+  glossaryAdminOnly: 'Змінювати глосарій можуть лише адміністратори чату.',
+  glossaryAdded: 'Додано до глосарію: {terms}.',
+  glossaryNothingAdded: 'Ці терміни вже є в глосарії.',
+  glossaryFull: 'Глосарій заповнений ({max} записів). Спершу видаліть щось.',
+  glossaryTooLong: 'Термін може мати не більше {max} символів.',
+  glossaryRuleAdded: '«{from}» буде замінено на «{to}».',
+  glossaryRemoved: '«{entry}» видалено з глосарію.',
+  glossaryNotFound: '«{entry}» немає в глосарії.',
+  glossaryMembersAdded: 'Додано імен учасників чату: {count}.',
+  settingsTitle: '<b>Налаштування розшифрування в цьому чаті</b>',
+  settingsTldr: 'TLDR: {value}',
+  settingsTldrOn: 'увімк. (довше за {threshold} символів)',
+  settingsOn: 'увімк.',
+  settingsOff: 'вимк.',
+  settingsAuto: 'авто',
+  settingsDefault: 'за замовчуванням',
+  settingsDefaultValue: '{value} (за замовчуванням)',
+  settingsMode: 'Режим: {value}',
+  settingsSpeakers: 'Мітки мовців: {value}',
+  settingsLanguageHint: 'Підказка мови: {value}',
+  settingsModel: 'Модель: {value}',
+  settingsProvider: 'Провайдер: {value}',
+  settingsArchive: 'Архів розшифровок: {value}',
+  settingsArchiveDays: 'зберігається {days} дн.',
+  settingsArchiveEntries: 'зберігаються останні {count}',
+  settingsInterface: 'Мова інтерфейсу: {value}',
+  settingsInterfaceUser: 'у кожного своя',
+  settingsTranslate: 'Автопереклад: {value}',
+  settingsTranslateInto: 'на {language}',
+  settingsHint:
+    'Натисніть кнопку, щоб змінити налаштування, або використовуйте <code>/settings mode &lt;режим&gt;</code>, <code>/settings language &lt;код&gt;</code>, <code>/settings threshold &lt;символи&gt;</code>, <code>/settings retention &lt;дні|off&gt;</code>, <code>/settings interface &lt;код|auto&gt;</code> і <code>/settings translate &lt;код|off&gt;</code>.',
+  settingsButtonThreshold: 'Поріг: {value}',
+  settingsButtonSpeakers: 'Мовці: {value}',
+  settingsButtonLanguage: 'Мова: {value}',
+  settingsButtonReset: 'Скинути',
+  settingsButtonClose: 'Закрити',
+  settingsAdminOnly: 'Змінювати налаштування можуть лише адміни чату.',
+  settingsUsage:
+    'Використання: /settings, /settings mode <{modes}>, /settings language <код|auto>, /settings threshold <символи>, /settings retention <дні|off>, /settings interface <{locales}|auto>, /settings translate <код|off>',
+  usageTitleUser: '<b>Ваше використання</b>',
+  usageTitleChat: '<b>Цей чат</b>',
+  usageToday: 'Сьогодні: {totals}',
+  usageThisMonth: 'Цього місяця: {totals}',
+  usageTotals:
+    'розшифровок: {transcriptions}, {minutes} хв, {megabytes} МБ, токенів: {tokens}',
+  usageQuota: '(квота: {used}/{quota} хв)',
+  usageModels: 'Моделі цього місяця: {models}',
+  usageTopHint:
+    'Використовуйте <code>/usage top [day|month]</code>, щоб побачити всіх.',
+  usageOwnerOnly: 'Найактивніших користувачів бачить лише власник бота.',
+  usageTopDay: '<b>Найактивніші сьогодні</b>',
+  usageTopMonth: '<b>Найактивніші цього місяця</b>',
+  usageUsers: '<i>Користувачі</i>',
+  usageChats: '<i>Чати</i>',
+  usageNone: 'поки нікого',
+  ownerOnly: 'Ця команда доступна лише власнику бота.',
+  accessUsage:
+    'Використання: <code>/{command} [ID користувача або чату]</code>',
+  accessUser: 'користувач {id}',
+  accessChat: 'чат {id}',
+  accessAllowed: 'Дозволено: {target}.',
+  accessDenied: 'Заборонено: {target}.',
+  accessOwnerNotDenied: 'Власнику бота не можна заборонити доступ.',
+  accessPrivateLeave: 'Я не можу залишити особистий чат.',
+  accessLeaving: 'Залишаю: {target}.',
+  chatsNone: 'Чатів поки не було.',
+  chatsTitle: '<b>Чати (режим {mode})</b>',
+  chatsLine: '{chat}: {status}, остання активність {date}',
+  chatStatusDenied: 'заборонено',
+  chatStatusAllowed: 'дозволено',
+  chatStatusOpen: 'відкрито',
+  chatStatusNotAllowed: 'не дозволено',
+  chatStatusLeft: '{status}, залишено',
+};
+
+const es: Catalog = {
+  welcome:
+    '¡Hola! Soy un bot que transcribe mensajes de voz, videomensajes (círculos), vídeos y archivos de audio. Dame permisos de administrador para ver todos los mensajes de voz del chat.',
+  rateLimited:
+    'Envías archivos más rápido de lo que puedo transcribirlos. Espera {seconds} s y vuelve a enviarlo.',
+  queueFull:
+    'Ahora mismo estoy muy ocupado. Inténtalo de nuevo en unos minutos.',
+  errorSilent:
+    'Parece que este mensaje está en silencio o no tiene audio. Envía una grabación con voz.',
+  errorUnsupportedMode:
+    'El proveedor de transcripción de este chat no puede tomar notas ni listar tareas. Elige otro modo o proveedor en /settings.',
+  errorTooLong: 'Esta grabación es demasiado larga para transcribirla.',
+  errorFormat:
+    'No he podido leer el formato de este archivo. Prueba con otro archivo o envía un mensaje de voz.',
+  errorGeneric:
+    'Lo siento, no he podido procesar tu mensaje. Inténtalo de nuevo.',
+  errorDownload:
+    'No he podido descargar este archivo de Telegram. Inténtalo de nuevo.',
+  errorTimeout:
+    'La transcripción ha tardado demasiado. Inténtalo de nuevo o envía una grabación más corta.',
+  errorRefused: 'El modelo se ha negado a transcribir esta grabación.',
+  errorRateLimited:
+    'Ahora mismo recibo demasiadas peticiones. Inténtalo de nuevo en unos minutos.',
+  retranscribeUsage:
+    'Responde /retranscribe a un mensaje de voz, vídeo o archivo de audio para transcribirlo de nuevo. Añade un modo para cambiar el resultado: /retranscribe clean, verbatim, notes o actions.',
+  limitFileSize:
+    'Este archivo ocupa {size} MB, pero solo puedo transcribir archivos de hasta {limit} MB.',
+  limitDuration:
+    'Esta grabación dura {minutes} minutos, pero solo puedo transcribir hasta {limit} minutos.',
+  quotaUserDay:
+    'Esto superaría tu cuota diaria de transcripción de {limit} minutos (quedan {left} minutos). Más detalles en /usage.',
+  quotaUserMonth:
+    'Esto superaría tu cuota mensual de transcripción de {limit} minutos (quedan {left} minutos). Más detalles en /usage.',
+  quotaChatDay:
+    'Esto superaría la cuota diaria de transcripción de este chat de {limit} minutos (quedan {left} minutos). Más detalles en /usage.',
+  quotaChatMonth:
+    'Esto superaría la cuota mensual de transcripción de este chat de {limit} minutos (quedan {left} minutos). Más detalles en /usage.',
+  refusePrivate:
+    'Lo siento, este bot es privado. Pide acceso a su propietario y dale tu ID de usuario: {userId}.',
+  refuseGroup:
+    'Lo siento, este bot es privado y no está disponible en este chat. ¡Adiós!',
+  progressQueued: 'En cola, posición {position}. Responderé cuando esté listo.',
+  progressDownloading: 'Descargando…',
+  progressExtracting: 'Extrayendo el audio…',
+  progressTranscribing: 'Transcribiendo…',
+  progressTranscribingChunk: 'Transcribiendo la parte {chunk}/{total}…',
+  progressSummarizing: 'Resumiendo…',
+  progressTranslating: 'Traduciendo…',
+  tldrLabel: 'Resumen:',
+  notesLabel: 'Notas:',
+  actionItemsLabel: 'Tareas:',
+  actionItemsNone: 'No hay tareas.',
+  actionItemDue: 'para {due}',
+  decisionsLabel: 'Decisiones:',
+  detectedLanguage: 'Idioma: {language}',
+  translationLabel: 'Traducción ({language}):',
+  originalLabel: 'Texto original:',
+  transcriptAttached: 'La transcripción completa va adjunta.',
+  titleVideo: 'Vídeo',
+  titleAudio: 'Archivo de audio',
+  titleTranslation: 'Traducción ({language})',
+  buttonRetranscribe: 'Transcribir de nuevo ({mode})',
+  buttonTranslate: 'Traducir',
+  buttonSummaryLess: 'Resumen −',
+  buttonSummaryMore: 'Resumen +',
+  buttonOriginal: 'Solo el original',
+  buttonBack: 'Volver a la transcripción',
+  buttonDelete: 'Eliminar',
+  buttonSubtitles: 'Subtítulos (.{format})',
+  summaryMostDetailed: 'Este ya es el resumen más detallado.',
+  summaryShortest: 'Este ya es el resumen más corto.',
+  summaryFailed: 'Lo siento, no he podido resumir esta transcripción.',
+  actionSummarizing: 'Resumiendo…',
+  actionTranslating: 'Traduciendo a {language}…',
+  translateUsage:
+    'Responde <code>/translate &lt;código de idioma&gt;</code> a un mensaje de voz o a su transcripción, por ejemplo <code>/translate en</code>.',
+  actionRetranscribing: 'Transcribiendo de nuevo en modo {mode}…',
+  actionUnavailable: 'Esta transcripción ya no está disponible.',
+  actionNotAllowed:
+    'Solo el remitente o un administrador del chat pueden hacerlo.',
+  speakerRenameNotAllowed:
+    'Solo el remitente o un administrador del chat pueden renombrar a los hablantes.',
+  actionBusy: 'Todavía estoy con la petición anterior…',
+  actionFailed:
+    'Lo siento, no he podido actualizar esta transcripción. Inténtalo de nuevo.',
+  speakerUnknown:
+    'No hay {unknown} en esta transcripción. Hablantes: {speakers}.',
+  subtitlesUsage:
+    'Responde /subtitles [srt|vtt] a un mensaje transcrito o a mi transcripción.',
+  subtitlesNoTimestamps:
+    'Esta transcripción no tiene marcas de tiempo. Prueba /retranscribe en el mensaje original.',
+  subtitlesUnavailable:
+    'Los subtítulos de esta transcripción ya no están disponibles.',
+  digestUsage:
+    '<code>/summary [N]</code> para los últimos N mensajes de voz, o <code>/summary 2h</code> (también <code>m</code>, <code>d</code>, <code>w</code>) para un periodo.',
+  digestEmpty: 'Aquí todavía no se ha transcrito ningún mensaje de voz.',
+  digestEmptyWindow:
+    'No se transcribió ningún mensaje de voz aquí en las últimas {window}.',
+  digestBusy: 'Todavía estoy con el resumen anterior…',
+  digestFailed:
+    'Lo siento, no he podido resumir estos mensajes. Inténtalo de nuevo.',
+  digestHeader:
+    '<b>Resumen</b> · mensajes de voz: {count} · hablantes: {speakers}',
+  digestHeaderWindow:
+    '<b>Resumen de las últimas {window}</b> · mensajes de voz: {count} · hablantes: {speakers}',
+  searchUsage: '<code>/search &lt;palabras&gt;</code>',
+  searchNothing: 'No se encontró nada para «{query}».',
+  searchFound: '<b>Transcripciones encontradas para «{query}»: {total}</b>',
+  searchShowing: '(se muestran {shown})',
+  exportUsage: '<code>/export [md|json]</code>',
+  exportEmpty: 'No hay transcripciones guardadas en este chat.',
+  purgeAdminOnly:
+    'Solo los administradores del chat pueden borrar las transcripciones guardadas.',
+  purgeConfirm:
+    'Se borrarán todas las transcripciones guardadas de este chat ({count}). Envía <code>/purge confirm</code> para continuar.',
+  purgeRetentionDays:
+    'Las transcripciones se guardan {days} días; cámbialo con <code>/settings retention &lt;días|off&gt;</code>.',
+  purgeRetentionFull:
+    'Las transcripciones se guardan hasta que el archivo se llena; limítalo con <code>/settings retention &lt;días&gt;</code>.',
+  purgeDone: 'Transcripciones guardadas borradas: {count}.',
+  glossaryUsage:
+    'Uso:\n<code>/glossary</code> – mostrar el glosario\n<code>/glossary add &lt;término&gt;, &lt;término&gt;</code> – añadir grafías preferidas\n<code>/glossary add &lt;incorrecto&gt; =&gt; &lt;correcto&gt;</code> – reemplazar siempre una grafía\n<code>/glossary remove &lt;término&gt;</code> – quitar un término o reemplazo\n<code>/glossary members</code> – añadir los nombres de los miembros del chat',
+  glossaryEmpty: 'El glosario de este chat está vacío.',
+  glossaryTerms: '<b>Grafías preferidas</b>',
+  glossaryReplacements: '<b>Reemplazos</b>',
+  glossaryAdminOnly:
+    'Solo los administradores del chat pueden cambiar el glosario.',
+  glossaryAdded: 'Añadido al glosario: {terms}.',
+  glossaryNothingAdded: 'Estos términos ya están en el glosario.',
+  glossaryFull:
+    'El glosario está lleno ({max} entradas). Quita alguna primero.',
+  glossaryTooLong: 'Los términos pueden tener como máximo {max} caracteres.',
+  glossaryRuleAdded: '«{from}» se reemplazará por «{to}».',
+  glossaryRemoved: '«{entry}» se quitó del glosario.',
+  glossaryNotFound: '«{entry}» no está en el glosario.',
+  glossaryMembersAdded: 'Nombres de miembros del chat añadidos: {count}.',
+  settingsTitle: '<b>Ajustes de transcripción de este chat</b>',
+  settingsTldr: 'TLDR: {value}',
+  settingsTldrOn: 'activado (más de {threshold} caracteres)',
+  settingsOn: 'activado',
+  settingsOff: 'desactivado',
+  settingsAuto: 'auto',
+  settingsDefault: 'predeterminado',
+  settingsDefaultValue: '{value} (predeterminado)',
+  settingsMode: 'Modo: {value}',
+  settingsSpeakers: 'Etiquetas de hablantes: {value}',
+  settingsLanguageHint: 'Pista de idioma: {value}',
+  settingsModel: 'Modelo: {value}',
+  settingsProvider: 'Proveedor: {value}',
+  settingsArchive: 'Archivo de transcripciones: {value}',
+  settingsArchiveDays: 'se guardan {days} días',
+  settingsArchiveEntries: 'se guardan las últimas {count}',
+  settingsInterface: 'Idioma de la interfaz: {value}',
+  settingsInterfaceUser: 'el de cada usuario',
+  settingsTranslate: 'Traducción automática: {value}',
+  settingsTranslateInto: 'a {language}',
+  settingsHint:
+    'Pulsa un botón para cambiar un ajuste, o usa <code>/settings mode &lt;modo&gt;</code>, <code>/settings language &lt;código&gt;</code>, <code>/settings threshold &lt;caracteres&gt;</code>, <code>/settings retention &lt;días|off&gt;</code>, <code>/settings interface &lt;código|auto&gt;</code> y <code>/settings translate &lt;código|off&gt;</code>.',
+  settingsButtonThreshold: 'Umbral: {value}',
+  settingsButtonSpeakers: 'Hablantes: {value}',
+  settingsButtonLanguage: 'Idioma: {value}',
+  settingsButtonReset: 'Restablecer',
+  settingsButtonClose: 'Cerrar',
+  settingsAdminOnly:
+    'Solo los administradores del chat pueden cambiar los ajustes.',
+  settingsUsage:
+    'Uso: /settings, /settings mode <{modes}>, /settings language <código|auto>, /settings threshold <caracteres>, /settings retention <días|off>, /settings interface <{locales}|auto>, /settings translate <código|off>',
+  usageTitleUser: '<b>Tu uso</b>',
+  usageTitleChat: '<b>Este chat</b>',
+  usageToday: 'Hoy: {totals}',
+  usageThisMonth: 'Este mes: {totals}',
+  usageTotals:
+    '{transcriptions} transcripciones, {minutes} min, {megabytes} MB, {tokens} tokens',
+  usageQuota: '(cuota: {used}/{quota} min)',
+  usageModels: 'Modelos este mes: {models}',
+  usageTopHint: 'Usa <code>/usage top [day|month]</code> para ver a todos.',
+  usageOwnerOnly: 'Solo el propietario del bot puede ver quién más lo usa.',
+  usageTopDay: '<b>Mayor consumo de hoy</b>',
+  usageTopMonth: '<b>Mayor consumo de este mes</b>',
+  usageUsers: '<i>Usuarios</i>',
+  usageChats: '<i>Chats</i>',
+  usageNone: 'nadie todavía',
+  ownerOnly: 'Solo el propietario del bot puede usar este comando.',
+  accessUsage: 'Uso: <code>/{command} [ID de usuario o de chat]</code>',
+  accessUser: 'usuario {id}',
+  accessChat: 'chat {id}',
+  accessAllowed: 'Permitido: {target}.',
+  accessDenied: 'Bloqueado: {target}.',
+  accessOwnerNotDenied: 'No se puede bloquear al propietario del bot.',
+  accessPrivateLeave: 'No puedo salir de un chat privado.',
+  accessLeaving: 'Saliendo de {target}.',
+  chatsNone: 'Todavía no he visto ningún chat.',
+  chatsTitle: '<b>Chats (modo {mode})</b>',
+  chatsLine: '{chat}: {status}, visto por última vez el {date}',
+  chatStatusDenied: 'bloqueado',
+  chatStatusAllowed: 'permitido',
+  chatStatusOpen: 'abierto',
+  chatStatusNotAllowed: 'no permitido',
+  chatStatusLeft: '{status}, abandonado',
+};
+
+const de: Catalog = {
+  welcome:
+    'Hallo! Ich bin ein Bot, der Sprachnachrichten, Videonachrichten (Kreise), Videos und Audiodateien transkribiert. Gib mir Administratorrechte, damit ich alle Sprachnachrichten im Chat sehe.',
+  rateLimited:
+    'Du sendest Medien schneller, als ich sie transkribieren kann. Bitte warte {seconds} s und sende sie erneut.',
+  queueFull:
+    'Ich bin gerade zu beschäftigt. Bitte versuche es in ein paar Minuten erneut.',
+  errorSilent:
+    'Diese Nachricht scheint still zu sein oder enthält keinen Ton. Bitte sende eine Aufnahme mit Sprache.',
+  errorUnsupportedMode:
+    'Der Transkriptionsanbieter dieses Chats kann keine Notizen oder Aufgabenlisten erstellen. Wähle in /settings einen anderen Modus oder Anbieter.',
+  errorTooLong: 'Diese Aufnahme ist zu lang zum Transkribieren.',
+  errorFormat:
+    'Ich konnte das Format dieser Datei nicht lesen. Bitte versuche eine andere Datei oder sende eine Sprachnachricht.',
+  errorGeneric:
+    'Entschuldigung, ich konnte deine Nachricht nicht verarbeiten. Bitte versuche es erneut.',
+  errorDownload:
+    'Ich konnte diese Datei nicht von Telegram herunterladen. Bitte versuche es erneut.',
+  errorTimeout:
+    'Die Transkription hat zu lange gedauert. Bitte versuche es erneut oder sende eine kürzere Aufnahme.',
+  errorRefused: 'Das Modell hat die Transkription dieser Aufnahme abgelehnt.',
+  errorRateLimited:
+    'Ich bekomme gerade zu viele Anfragen. Bitte versuche es in ein paar Minuten erneut.',
+  retranscribeUsage:
+    'Antworte mit /retranscribe auf eine Sprachnachricht, ein Video oder eine Audiodatei, um sie erneut zu transkribieren. Mit einem Modus änderst du das Ergebnis: /retranscribe clean, verbatim, notes oder actions.',
+  limitFileSize:
+    'Diese Datei ist {size} MB groß, ich kann aber nur Dateien bis {limit} MB transkribieren.',
+  limitDuration:
+    'Diese Aufnahme ist {minutes} Minuten lang, ich kann aber nur bis zu {limit} Minuten transkribieren.',
+  quotaUserDay:
+    'Damit würdest du dein tägliches Transkriptionskontingent von {limit} Minuten überschreiten (noch {left} Minuten). Details unter /usage.',
+  quotaUserMonth:
+    'Damit würdest du dein monatliches Transkriptionskontingent von {limit} Minuten überschreiten (noch {left} Minuten). Details unter /usage.',
+  quotaChatDay:
+    'Damit würde das tägliche Transkriptionskontingent dieses Chats von {limit} Minuten überschritten (noch {left} Minuten). Details unter /usage.',
+  quotaChatMonth:
+    'Damit würde das monatliche Transkriptionskontingent dieses Chats von {limit} Minuten überschritten (noch {left} Minuten). Details unter /usage.',
+  refusePrivate:
+    'Entschuldigung, dieser Bot ist privat. Bitte den Betreiber um Zugang und nenne ihm deine Benutzer-ID: {userId}.',
+  refuseGroup:
+    'Entschuldigung, dieser Bot ist privat und in diesem Chat nicht verfügbar. Auf Wiedersehen!',
+  progressQueued:
+    'In der Warteschlange, Position {position}. Ich antworte, sobald es fertig ist.',
+  progressDownloading: 'Lade herunter…',
+  progressExtracting: 'Extrahiere den Ton…',
+  progressTranscribing: 'Transkribiere…',
+  progressTranscribingChunk: 'Transkribiere Teil {chunk}/{total}…',
+  progressSummarizing: 'Fasse zusammen…',
+  progressTranslating: 'Übersetze…',
+  tldrLabel: 'Kurz gesagt:',
+  notesLabel: 'Notizen:',
+  actionItemsLabel: 'Aufgaben:',
+  actionItemsNone: 'Keine Aufgaben.',
+  actionItemDue: 'fällig {due}',
+  decisionsLabel: 'Entscheidungen:',
+  detectedLanguage: 'Sprache: {language}',
+  translationLabel: 'Übersetzung ({language}):',
+  originalLabel: 'Originaltext:',
+  transcriptAttached: 'Das vollständige Transkript ist angehängt.',
+  titleVideo: 'Video',
+  titleAudio: 'Audiodatei',
+  titleTranslation: 'Übersetzung ({language})',
+  buttonRetranscribe: 'Neu transkribieren ({mode})',
+  buttonTranslate: 'Übersetzen',
+  buttonSummaryLess: 'Zusammenfassung −',
+  buttonSummaryMore: 'Zusammenfassung +',
+  buttonOriginal: 'Nur Original',
+  buttonBack: 'Zurück zum Transkript',
+  buttonDelete: 'Löschen',
+  buttonSubtitles: 'Untertitel (.{format})',
+  summaryMostDetailed: 'Das ist bereits die ausführlichste Zusammenfassung.',
+  summaryShortest: 'Das ist bereits die kürzeste Zusammenfassung.',
+  summaryFailed:
+    'Entschuldigung, ich konnte dieses Transkript nicht zusammenfassen.',
+  actionSummarizing: 'Fasse zusammen…',
+  actionTranslating: 'Übersetze nach {language}…',
+  translateUsage:
+    'Antworte mit <code>/translate &lt;Sprachcode&gt;</code> auf eine Sprachnachricht oder ihr Transkript, z. B. <code>/translate en</code>.',
+  actionRetranscribing: 'Transkribiere erneut im Modus {mode}…',
+  actionUnavailable: 'Dieses Transkript ist nicht mehr verfügbar.',
+  actionNotAllowed: 'Das können nur der Absender oder ein Chat-Admin.',
+  speakerRenameNotAllowed:
+    'Nur der Absender oder ein Chat-Admin kann Sprecher umbenennen.',
+  actionBusy: 'Ich arbeite noch an der vorherigen Anfrage…',
+  actionFailed:
+    'Entschuldigung, ich konnte dieses Transkript nicht aktualisieren. Bitte versuche es erneut.',
+  speakerUnknown:
+    'In diesem Transkript gibt es kein {unknown}. Sprecher: {speakers}.',
+  subtitlesUsage:
+    'Antworte mit /subtitles [srt|vtt] auf eine transkribierte Nachricht oder auf mein Transkript.',
+  subtitlesNoTimestamps:
+    'Dieses Transkript hat keine Zeitstempel. Versuche /retranscribe auf der Originalnachricht.',
+  subtitlesUnavailable:
+    'Für dieses Transkript sind keine Untertitel mehr verfügbar.',
+  digestUsage:
+    '<code>/summary [N]</code> für die letzten N Sprachnachrichten oder <code>/summary 2h</code> (auch <code>m</code>, <code>d</code>, <code>w</code>) für einen Zeitraum.',
+  digestEmpty: 'Hier wurden noch keine Sprachnachrichten transkribiert.',
+  digestEmptyWindow:
+    'In den letzten {window} wurden hier keine Sprachnachrichten transkribiert.',
+  digestBusy: 'Ich arbeite noch an der vorherigen Zusammenfassung…',
+  digestFailed:
+    'Entschuldigung, ich konnte diese Nachrichten nicht zusammenfassen. Bitte versuche es erneut.',
+  digestHeader:
+    '<b>Zusammenfassung</b> · Sprachnachrichten: {count} · Sprecher: {speakers}',
+  digestHeaderWindow:
+    '<b>Zusammenfassung der letzten {window}</b> · Sprachnachrichten: {count} · Sprecher: {speakers}',
+  searchUsage: '<code>/search &lt;Wörter&gt;</code>',
+  searchNothing: 'Nichts gefunden für „{query}“.',
+  searchFound: '<b>Gefundene Transkripte für „{query}“: {total}</b>',
+  searchShowing: '({shown} angezeigt)',
+  exportUsage: '<code>/export [md|json]</code>',
+  exportEmpty: 'In diesem Chat sind keine Transkripte gespeichert.',
+  purgeAdminOnly: 'Nur Chat-Admins können gespeicherte Transkripte löschen.',
+  purgeConfirm:
+    'Damit werden alle gespeicherten Transkripte dieses Chats gelöscht ({count}). Sende <code>/purge confirm</code>, um fortzufahren.',
+  purgeRetentionDays:
+    'Transkripte werden {days} Tage aufbewahrt; ändern mit <code>/settings retention &lt;Tage|off&gt;</code>.',
+  purgeRetentionFull:
+    'Transkripte werden aufbewahrt, bis das Archiv voll ist; begrenzen mit <code>/settings retention &lt;Tage&gt;</code>.',
+  purgeDone: 'Gelöschte gespeicherte Transkripte: {count}.',
+  glossaryUsage:
+    'Verwendung:\n<code>/glossary</code> – Glossar anzeigen\n<code>/glossary add &lt;Begriff&gt;, &lt;Begriff&gt;</code> – bevorzugte Schreibweisen hinzufügen\n<code>/glossary add &lt;falsch&gt; =&gt; &lt;richtig&gt;</code> – eine Schreibweise immer ersetzen\n<code>/glossary remove &lt;Begriff&gt;</code> – Begriff oder Ersetzung entfernen\n<code>/glossary members</code> – Namen der Chat-Mitglieder hinzufügen',
+  glossaryEmpty: 'Das Glossar dieses Chats ist leer.',
+  glossaryTerms: '<b>Bevorzugte Schreibweisen</b>',
+  glossaryReplacements: '<b>Ersetzungen</b>',
+  glossaryAdminOnly: 'Nur Chat-Admins können das Glossar ändern.',
+  glossaryAdded: 'Zum Glossar hinzugefügt: {terms}.',
+  glossaryNothingAdded: 'Diese Begriffe stehen schon im Glossar.',
+  glossaryFull:
+    'Das Glossar ist voll ({max} Einträge). Entferne zuerst welche.',
+  glossaryTooLong: 'Begriffe dürfen höchstens {max} Zeichen lang sein.',
+  glossaryRuleAdded: '„{from}“ wird durch „{to}“ ersetzt.',
+  glossaryRemoved: '„{entry}“ wurde aus dem Glossar entfernt.',
+  glossaryNotFound: '„{entry}“ steht nicht im Glossar.',
+  glossaryMembersAdded: 'Namen von Chat-Mitgliedern hinzugefügt: {count}.',
+  settingsTitle: '<b>Transkriptionseinstellungen für diesen Chat</b>',
+  settingsTldr: 'TLDR: {value}',
+  settingsTldrOn: 'an (über {threshold} Zeichen)',
+  settingsOn: 'an',
+  settingsOff: 'aus',
+  settingsAuto: 'auto',
+  settingsDefault: 'Standard',
+  settingsDefaultValue: '{value} (Standard)',
+  settingsMode: 'Modus: {value}',
+  settingsSpeakers: 'Sprecherkennzeichnung: {value}',
+  settingsLanguageHint: 'Sprachhinweis: {value}',
+  settingsModel: 'Modell: {value}',
+  settingsProvider: 'Anbieter: {value}',
+  settingsArchive: 'Transkriptarchiv: {value}',
+  settingsArchiveDays: '{days} Tage aufbewahrt',
+  settingsArchiveEntries: 'die letzten {count} aufbewahrt',
+  settingsInterface: 'Sprache der Oberfläche: {value}',
+  settingsInterfaceUser: 'die jedes Nutzers',
+  settingsTranslate: 'Automatische Übersetzung: {value}',
+  settingsTranslateInto: 'nach {language}',
+  settingsHint:
+    'Tippe auf eine Schaltfläche, um eine Einstellung zu ändern, oder nutze <code>/settings mode &lt;Modus&gt;</code>, <code>/settings language &lt;Code&gt;</code>, <code>/settings threshold &lt;Zeichen&gt;</code>, <code>/settings retention &lt;Tage|off&gt;</code>, <code>/settings interface &lt;Code|auto&gt;</code> und <code>/settings translate &lt;Code|off&gt;</code>.',
+  settingsButtonThreshold: 'Schwelle: {value}',
+  settingsButtonSpeakers: 'Sprecher: {value}',
+  settingsButtonLanguage: 'Sprache: {value}',
+  settingsButtonReset: 'Zurücksetzen',
+  settingsButtonClose: 'Schließen',
+  settingsAdminOnly: 'Nur Chat-Admins können die Einstellungen ändern.',
+  settingsUsage:
+    'Verwendung: /settings, /settings mode <{modes}>, /settings language <Code|auto>, /settings threshold <Zeichen>, /settings retention <Tage|off>, /settings interface <{locales}|auto>, /settings translate <Code|off>',
+  usageTitleUser: '<b>Deine Nutzung</b>',
+  usageTitleChat: '<b>Dieser Chat</b>',
+  usageToday: 'Heute: {totals}',
+  usageThisMonth: 'Diesen Monat: {totals}',
+  usageTotals:
+    '{transcriptions} Transkriptionen, {minutes} Min., {megabytes} MB, {tokens} Tokens',
+  usageQuota: '(Kontingent: {used}/{quota} Min.)',
+  usageModels: 'Modelle diesen Monat: {models}',
+  usageTopHint: 'Mit <code>/usage top [day|month]</code> siehst du alle.',
+  usageOwnerOnly: 'Nur der Bot-Betreiber kann die größten Verbraucher sehen.',
+  usageTopDay: '<b>Größte Verbraucher heute</b>',
+  usageTopMonth: '<b>Größte Verbraucher diesen Monat</b>',
+  usageUsers: '<i>Nutzer</i>',
+  usageChats: '<i>Chats</i>',
+  usageNone: 'noch niemand',
+  ownerOnly: 'Nur der Bot-Betreiber kann diesen Befehl verwenden.',
+  accessUsage: 'Verwendung: <code>/{command} [Nutzer- oder Chat-ID]</code>',
+  accessUser: 'Nutzer {id}',
+  accessChat: 'Chat {id}',
+  accessAllowed: 'Erlaubt: {target}.',
+  accessDenied: 'Gesperrt: {target}.',
+  accessOwnerNotDenied: 'Der Bot-Betreiber kann nicht gesperrt werden.',
+  accessPrivateLeave: 'Einen privaten Chat kann ich nicht verlassen.',
+  accessLeaving: 'Verlasse {target}.',
+  chatsNone: 'Noch keine Chats gesehen.',
+  chatsTitle: '<b>Chats (Modus {mode})</b>',
+  chatsLine: '{chat}: {status}, zuletzt gesehen {date}',
+  chatStatusDenied: 'gesperrt',
+  chatStatusAllowed: 'erlaubt',
+  chatStatusOpen: 'offen',
+  chatStatusNotAllowed: 'nicht erlaubt',
+  chatStatusLeft: '{status}, verlassen',
+};
+
+const catalogs: Record<string, Catalog> = { en, ru, uk, es, de };
+
+/**
+ * Applies operator overrides from I18N_OVERRIDES_FILE, a JSON object of
+ * locale -> key -> message. New locales may be added this way too.
+ */
+function loadOverrides() {
+  if (!i18nOverridesFile) return;
+  if (!existsSync(i18nOverridesFile)) {
+    log(`Message overrides file ${i18nOverridesFile} not found`);
+    return;
+  }
+  try {
+    const overrides = JSON.parse(
+      readFileSync(i18nOverridesFile, 'utf8'),
+    ) as Record<string, Record<string, string>>;
+    for (const [locale, messages] of Object.entries(overrides)) {
+      const catalog = (catalogs[locale.toLowerCase()] ||= {});
+      for (const [key, message] of Object.entries(messages)) {
+        if (!(key in en)) {
+          log(`Ignoring unknown message key "${key}" in ${i18nOverridesFile}`);
+          continue;
+        }
+        catalog[key as MessageKey] = message;
+      }
+    }
+    log(`Loaded message overrides from ${i18nOverridesFile}`);
+  } catch (error) {
+    log(
+      `Failed to load message overrides from ${i18nOverridesFile}: ${(error as Error).message}`,
+    );
+  }
+}
+
+loadOverrides();
+
+export function supportedLocales() {
+  return Object.keys(catalogs);
+}
+
+/** Closest supported locale for a language code such as "pt-BR". */
+function supportedLocale(languageCode: string | null | undefined) {
+  const base = languageCode?.toLowerCase().split(/[-_]/)[0];
+  return base && catalogs[base] ? base : null;
+}
+
+/**
+ * Locale for replies in a chat: the chat's interface language setting,
+ * else the user's Telegram language, else DEFAULT_LOCALE.
+ */
+export function resolveLocale(
+  chatId: number | undefined,
+  languageCode?: string,
+): string {
+  const chatLocale =
+    chatId !== undefined ? getChatSettings(chatId).uiLanguage : null;
+  return (
+    supportedLocale(chatLocale) ||
+    supportedLocale(languageCode) ||
+    supportedLocale(defaultLocale) ||
+    'en'
+  );
+}
+
+/** Locale for replying to a message. */
+export function localeFor(msg: {
+  chat: { id: number };
+  from?: { language_code?: string };
+}) {
+  return resolveLocale(msg.chat.id, msg.from?.language_code);
+}
+
+/**
+ * A message in `locale` (falling back to DEFAULT_LOCALE, then English)
+ * with its `{name}` placeholders filled in.
+ */
+export function t(
+  locale: string | undefined,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  const message =
+    (locale && catalogs[locale]?.[key]) ||
+    catalogs[defaultLocale]?.[key] ||
+    en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+/**
+ * Name of a language in `locale`, e.g. "Spanish" for "es"; the code
+ * itself when the runtime doesn't know it.
+ */
+export function languageName(code: string, locale = 'en') {
+  try {
+    return (
+      new Intl.DisplayNames([locale], { type: 'language' }).of(code) || code
+    );
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,94 @@
+import { log } from './utils.js';
+
+export interface JobQueueOptions {
+  /** Jobs running at once across all chats. */
+  globalConcurrency: number;
+  /** Jobs running at once within a single chat. */
+  perChatConcurrency: number;
+  /** Jobs allowed to wait; further jobs are rejected. */
+  maxQueueSize: number;
+}
+
+export type EnqueueResult =
+  | { status: 'started'; done: Promise<void> }
+  | { status: 'queued'; position: number; done: Promise<void> }
+  | { status: 'rejected' };
+
+export interface JobQueue {
+  enqueue(chatId: number | string, run: () => Promise<void>): EnqueueResult;
+  stats(): { running: number; waiting: number };
+}
+
+interface PendingJob {
+  chatKey: string;
+  run: () => Promise<void>;
+  resolve: () => void;
+}
+
+/**
+ * FIFO queue with a global and a per-chat concurrency cap. A waiting job
+ * from a chat that is at its cap doesn't block jobs of other chats behind
+ * it.
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const pending: PendingJob[] = [];
+  const runningPerChat = new Map<string, number>();
+  let running = 0;
+
+  const canStart = (chatKey: string) =>
+    running < options.globalConcurrency &&
+    (runningPerChat.get(chatKey) || 0) < options.perChatConcurrency;
+
+  const start = (job: PendingJob) => {
+    running++;
+    runningPerChat.set(job.chatKey, (runningPerChat.get(job.chatKey) || 0) + 1);
+
+    job
+      .run()
+      .catch((error) => {
+        // Jobs handle their own errors; this only guards the queue
+        log(`Unhandled error in queued job: ${(error as Error).message}`);
+      })
+      .finally(() => {
+        running--;
+        const left = (runningPerChat.get(job.chatKey) || 1) - 1;
+        if (left > 0) runningPerChat.set(job.chatKey, left);
+        else runningPerChat.delete(job.chatKey);
+        job.resolve();
+        drain();
+      });
+  };
+
+  const drain = () => {
+    let i = 0;
+    while (i < pending.length && running < options.globalConcurrency) {
+      if (canStart(pending[i].chatKey)) {
+        start(pending.splice(i, 1)[0]);
+      } else {
+        i++;
+      }
+    }
+  };
+
+  return {
+    enqueue(chatId, run) {
+      const chatKey = String(chatId);
+      let resolve!: () => void;
+      const done = new Promise<void>((res) => (resolve = res));
+      const job = { chatKey, run, resolve };
+
+      if (canStart(chatKey)) {
+        start(job);
+        return { status: 'started', done };
+      }
+      if (pending.length >= options.maxQueueSize) {
+        return { status: 'rejected' };
+      }
+      pending.push(job);
+      return { status: 'queued', position: pending.length, done };
+    },
+    stats() {
+      return { running, waiting: pending.length };
+    },
+  };
+}
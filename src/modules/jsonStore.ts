@@ -0,0 +1,88 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { dataDir } from './config.js';
+import { log } from './utils.js';
+
+export interface JsonStore<T> {
+  /** The live data; mutate it and call save(). */
+  readonly data: T;
+  /** Schedules a write to disk, coalescing bursts of changes. */
+  save(): void;
+  /** Writes pending changes immediately. */
+  flush(): void;
+}
+
+const SAVE_DELAY_MS = 500;
+const openStores: JsonStore<unknown>[] = [];
+
+/** Writes every store's pending changes, e.g. before shutting down. */
+export function flushAllStores() {
+  for (const store of openStores) {
+    store.flush();
+  }
+}
+
+/**
+ * Loads `<DATA_DIR>/<fileName>` (or `initial()` if it doesn't exist yet)
+ * and keeps it in memory. Writes go to a temp file first and are renamed
+ * into place so a crash never leaves a half-written store behind.
+ */
+export function createJsonStore<T>(
+  fileName: string,
+  initial: () => T,
+): JsonStore<T> {
+  const filePath = join(dataDir, fileName);
+  let data: T;
+
+  try {
+    data = existsSync(filePath)
+      ? (JSON.parse(readFileSync(filePath, 'utf8')) as T)
+      : initial();
+  } catch (error) {
+    log(
+      `Failed to read ${filePath}, starting with empty data: ${(error as Error).message}`,
+    );
+    data = initial();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  let dirty = false;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (!dirty) return;
+    dirty = false;
+    try {
+      mkdirSync(dataDir, { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(data));
+      renameSync(tempPath, filePath);
+    } catch (error) {
+      log(`Failed to write ${filePath}: ${(error as Error).message}`);
+    }
+  };
+
+  const store: JsonStore<T> = {
+    get data() {
+      return data;
+    },
+    save() {
+      dirty = true;
+      if (!timer) {
+        timer = setTimeout(flush, SAVE_DELAY_MS);
+      }
+    },
+    flush,
+  };
+  openStores.push(store);
+  return store;
+}
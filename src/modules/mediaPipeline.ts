@@ -0,0 +1,328 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+import { writeFileSync } from 'fs';
+import {
+  analyzeSpeech,
+  measureLoudness,
+  needsNormalization,
+  trimRange,
+  type SpeechAnalysis,
+} from './audioPreprocessing.js';
+import {
+  maxMediaDurationSeconds,
+  maxMediaFileBytes,
+  minSpeechSeconds,
+  normalizeLoudness,
+  trimSilence,
+} from './config.js';
+import { MediaTooLongError, SilentAudioError } from './errors.js';
+import { t } from './i18n.js';
+import { downloadSeconds, timeAsync } from './metrics.js';
+import type { ProgressCallback } from './progressMessage.js';
+import type { MediaFile } from './transcriptStore.js';
+import {
+  convertToSpeechMp3,
+  createTempFilePath,
+  downloadVoiceToBuffer,
+  extensionForMimeType,
+  extractSpeechAudio,
+  log,
+  probeMedia,
+  removeTempFile,
+  type MediaProbe,
+} from './utils.js';
+
+/** Media found in a message, with what Telegram tells us before download. */
+export interface IncomingMedia extends MediaFile {
+  fileSize?: number;
+}
+
+/** Audio ready to be transcribed. */
+export interface PreparedAudio {
+  buffer: Buffer;
+  mimeType: string;
+  /** Duration after trimming, used for accounting and quotas. */
+  durationSeconds: number;
+  /**
+   * Seconds of detected speech, a hint for the model; unknown when the
+   * duration is.
+   */
+  speechSeconds?: number;
+  /** Seconds trimmed off the start; transcript timestamps add it back. */
+  trimmedStartSeconds: number;
+  /** Size of the downloaded original, for usage accounting. */
+  sourceBytes: number;
+}
+
+// Documents with these extensions are treated as media even when Telegram
+// reports a generic MIME type such as application/octet-stream.
+const mediaFileExtensions =
+  /\.(mp3|m4a|mp4|aac|ogg|oga|opus|wav|flac|webm|weba|mka|mkv|mov|amr|aiff?)$/i;
+
+/** Whether a file name looks like audio or video, judging by its extension. */
+export function isMediaFileName(fileName: string) {
+  return mediaFileExtensions.test(fileName);
+}
+
+function isMediaDocument(document: TelegramBot.Document) {
+  const mimeType = document.mime_type || '';
+  return (
+    mimeType.startsWith('audio/') ||
+    mimeType.startsWith('video/') ||
+    mimeType === 'application/ogg' ||
+    isMediaFileName(document.file_name || '')
+  );
+}
+
+/**
+ * Finds transcribable media in a message: voice messages, audio files,
+ * video notes, videos and audio or video sent as a document.
+ */
+export function mediaFromMessage(msg: Message): IncomingMedia | null {
+  if (msg.voice) {
+    return {
+      kind: 'voice',
+      fileId: msg.voice.file_id,
+      fileUniqueId: msg.voice.file_unique_id,
+      mimeType: msg.voice.mime_type || 'audio/ogg',
+      durationSeconds: msg.voice.duration,
+      fileSize: msg.voice.file_size,
+    };
+  }
+  if (msg.audio) {
+    // Bot API sends file_name for audio too; the typings lack it
+    const fileName = (msg.audio as { file_name?: string }).file_name;
+    return {
+      kind: 'audio',
+      fileId: msg.audio.file_id,
+      fileUniqueId: msg.audio.file_unique_id,
+      mimeType: msg.audio.mime_type || 'audio/mpeg',
+      durationSeconds: msg.audio.duration,
+      fileName: fileName || msg.audio.title,
+      fileSize: msg.audio.file_size,
+    };
+  }
+  if (msg.video_note) {
+    return {
+      kind: 'video_note',
+      fileId: msg.video_note.file_id,
+      fileUniqueId: msg.video_note.file_unique_id,
+      mimeType: 'video/mp4',
+      durationSeconds: msg.video_note.duration,
+      fileSize: msg.video_note.file_size,
+    };
+  }
+  if (msg.video) {
+    return {
+      kind: 'video',
+      fileId: msg.video.file_id,
+      fileUniqueId: msg.video.file_unique_id,
+      mimeType: msg.video.mime_type || 'video/mp4',
+      durationSeconds: msg.video.duration,
+      fileName: (msg.video as { file_name?: string }).file_name,
+      fileSize: msg.video.file_size,
+    };
+  }
+  if (msg.document && isMediaDocument(msg.document)) {
+    return {
+      kind: 'document',
+      fileId: msg.document.file_id,
+      fileUniqueId: msg.document.file_unique_id,
+      mimeType: msg.document.mime_type || 'application/octet-stream',
+      fileName: msg.document.file_name,
+      fileSize: msg.document.file_size,
+    };
+  }
+  return null;
+}
+
+/**
+ * Title shown above the transcript of files; voice messages and video
+ * notes have none.
+ */
+export function mediaTitle(
+  media: MediaFile,
+  locale?: string,
+): string | undefined {
+  if (media.kind === 'voice' || media.kind === 'video_note') return undefined;
+  return (
+    media.fileName ||
+    t(locale, media.kind === 'video' ? 'titleVideo' : 'titleAudio')
+  );
+}
+
+/**
+ * Checks the size and duration Telegram reports against the configured
+ * limits. Returns a message for the user, in `locale`, if the media is
+ * refused.
+ */
+export function checkMediaLimits(
+  media: IncomingMedia,
+  locale?: string,
+): string | null {
+  if (media.fileSize && media.fileSize > maxMediaFileBytes) {
+    const sizeMb = (media.fileSize / 1024 / 1024).toFixed(1);
+    const limitMb = (maxMediaFileBytes / 1024 / 1024).toFixed(0);
+    return t(locale, 'limitFileSize', { size: sizeMb, limit: limitMb });
+  }
+  if (
+    media.durationSeconds &&
+    media.durationSeconds > maxMediaDurationSeconds
+  ) {
+    return t(locale, 'limitDuration', {
+      minutes: Math.ceil(media.durationSeconds / 60),
+      limit: Math.floor(maxMediaDurationSeconds / 60),
+    });
+  }
+  return null;
+}
+
+/**
+ * MIME type to send the file as-is with, for inputs providers read
+ * directly: Opus/Vorbis in OGG (voice messages) and MP3.
+ */
+function passthroughMimeType(probe: MediaProbe): string | null {
+  if (probe.hasVideo) return null;
+  if (
+    probe.formatName === 'ogg' &&
+    (probe.audioCodec === 'opus' || probe.audioCodec === 'vorbis')
+  ) {
+    return 'audio/ogg';
+  }
+  if (probe.formatName === 'mp3') return 'audio/mp3';
+  return null;
+}
+
+/**
+ * Inspects a local media file with ffprobe and ebur128, refuses it if
+ * silencedetect finds no speech, and prepares its audio: trimmed of
+ * leading and trailing silence and loudness-normalized where that changes
+ * anything (see TRIM_SILENCE, NORMALIZE_LOUDNESS), or else extracted as
+ * speech-friendly MP3 unless providers can read it directly. `original`
+ * is the file's content, passed through as-is when possible.
+ */
+export async function prepareAudioFile(
+  inputPath: string,
+  original: Buffer,
+  options: { maxDurationSeconds?: number; onProgress?: ProgressCallback } = {},
+): Promise<PreparedAudio> {
+  const probe = await probeMedia(inputPath);
+  log(
+    `Probed ${inputPath}: format ${probe.formatName}, audio ${probe.audioCodec || 'none'}, ${probe.durationSeconds.toFixed(1)}s`,
+  );
+
+  if (!probe.audioCodec) {
+    throw new SilentAudioError('Media does not contain audio stream');
+  }
+
+  // Streamed WebM and OGG often carry no duration; decoding tells it
+  const loudness = await measureLoudness(inputPath);
+  const durationSeconds = probe.durationSeconds || loudness.decodedSeconds;
+  log(
+    `Measured ${loudness.integratedLufs.toFixed(1)} LUFS over ${loudness.decodedSeconds.toFixed(1)}s`,
+  );
+  if (
+    options.maxDurationSeconds &&
+    durationSeconds > options.maxDurationSeconds
+  ) {
+    throw new MediaTooLongError(
+      `Media is too long: ${Math.round(durationSeconds)}s exceeds the limit of ${options.maxDurationSeconds}s`,
+    );
+  }
+
+  let speech: SpeechAnalysis | null = null;
+  if (durationSeconds) {
+    speech = await analyzeSpeech(inputPath, durationSeconds, loudness);
+    log(
+      `Detected ${speech.speechSeconds.toFixed(1)}s of speech in ${durationSeconds.toFixed(1)}s (${Math.round(speech.speechRatio * 100)}%)`,
+    );
+    if (speech.speechSeconds < minSpeechSeconds) {
+      throw new SilentAudioError(
+        `No speech detected: ${speech.speechSeconds.toFixed(1)}s of sound in ${durationSeconds.toFixed(1)}s`,
+      );
+    }
+  } else {
+    log(`Duration of ${inputPath} is unknown, skipping speech detection`);
+  }
+
+  const trim =
+    trimSilence && speech ? trimRange(speech, durationSeconds) : null;
+  const normalize = normalizeLoudness && needsNormalization(loudness);
+  const base = {
+    speechSeconds: speech?.speechSeconds,
+    sourceBytes: original.length,
+  };
+  if (trim || normalize) {
+    options.onProgress?.({ stage: 'extracting' });
+    if (trim) {
+      log(
+        `Trimming to ${trim.startSeconds.toFixed(1)}s-${(trim.startSeconds + trim.durationSeconds).toFixed(1)}s`,
+      );
+    }
+    return {
+      ...base,
+      buffer: await convertToSpeechMp3(inputPath, trim || undefined, {
+        normalizeLoudness: normalize,
+      }),
+      mimeType: 'audio/mp3',
+      durationSeconds: trim?.durationSeconds ?? durationSeconds,
+      trimmedStartSeconds: trim?.startSeconds ?? 0,
+    };
+  }
+
+  const mimeType = passthroughMimeType(probe);
+  if (mimeType) {
+    return {
+      ...base,
+      buffer: original,
+      mimeType,
+      durationSeconds,
+      trimmedStartSeconds: 0,
+    };
+  }
+  options.onProgress?.({ stage: 'extracting' });
+  return {
+    ...base,
+    buffer: await extractSpeechAudio(inputPath),
+    mimeType: 'audio/mp3',
+    durationSeconds,
+    trimmedStartSeconds: 0,
+  };
+}
+
+/**
+ * Downloads media from Telegram and prepares its audio (see
+ * prepareAudioFile).
+ */
+export async function downloadAndNormalize(
+  bot: TelegramBot,
+  media: MediaFile,
+  onProgress?: ProgressCallback,
+): Promise<PreparedAudio> {
+  onProgress?.({ stage: 'downloading' });
+  const downloaded = await timeAsync(
+    downloadSeconds,
+    { kind: media.kind },
+    () => downloadVoiceToBuffer(bot, media.fileId),
+  );
+  log(
+    `Downloaded ${media.kind} ${media.fileName || media.fileId} (${(downloaded.length / 1024).toFixed(2)} KB)`,
+  );
+
+  // ffprobe and ffmpeg need a seekable file (e.g. for MP4)
+  const inputPath = createTempFilePath(
+    'media',
+    extensionForMimeType(media.mimeType),
+  );
+  try {
+    writeFileSync(inputPath, downloaded);
+    // Documents don't report a duration before download, so the limit is
+    // checked again here
+    return await prepareAudioFile(inputPath, downloaded, {
+      maxDurationSeconds: maxMediaDurationSeconds,
+      onProgress,
+    });
+  } finally {
+    removeTempFile(inputPath);
+  }
+}
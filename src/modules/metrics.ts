@@ -0,0 +1,215 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+type Labels = Record<string, string | number | undefined>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .filter((key) => labels[key] !== undefined)
+      .map((key) => [key, String(labels[key])]),
+  );
+}
+
+function formatLabels(key: string, extra: [string, string][] = []) {
+  const pairs = [...(JSON.parse(key) as [string, string][]), ...extra];
+  if (!pairs.length) return '';
+  const escape = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${pairs.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+  metrics.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...[...values].map(
+        ([key, value]) => `${name}${formatLabels(key)} ${value}`,
+      ),
+    ],
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) || 0) + value);
+    },
+  };
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+/** Latency buckets in seconds, from a fast ffprobe to a long model call. */
+const defaultBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export function createHistogram(
+  name: string,
+  help: string,
+  buckets = defaultBuckets,
+): Histogram {
+  const series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+  metrics.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...[...series].flatMap(([key, { counts, sum, count }]) => [
+        ...buckets.map(
+          (bucket, i) =>
+            `${name}_bucket${formatLabels(key, [['le', String(bucket)]])} ${counts[i]}`,
+        ),
+        `${name}_bucket${formatLabels(key, [['le', '+Inf']])} ${count}`,
+        `${name}_sum${formatLabels(key)} ${sum}`,
+        `${name}_count${formatLabels(key)} ${count}`,
+      ]),
+    ],
+  });
+  return {
+    observe(labels, value) {
+      const key = labelKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((bucket, i) => {
+        if (value <= bucket) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/**
+ * A gauge read at scrape time, e.g. the job queue length.
+ */
+export function createGauge(name: string, help: string, collect: () => number) {
+  metrics.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} gauge`,
+      `${name} ${collect()}`,
+    ],
+  });
+}
+
+/**
+ * Runs `fn` and records how long it took, labelled with its outcome.
+ */
+export async function timeAsync<T>(
+  histogram: Histogram,
+  labels: Labels,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const startedAt = process.hrtime.bigint();
+  const elapsed = () => Number(process.hrtime.bigint() - startedAt) / 1e9;
+  try {
+    const result = await fn();
+    histogram.observe({ ...labels, outcome: 'success' }, elapsed());
+    return result;
+  } catch (error) {
+    histogram.observe({ ...labels, outcome: 'error' }, elapsed());
+    throw error;
+  }
+}
+
+export const downloadSeconds = createHistogram(
+  'voiceoverbot_download_duration_seconds',
+  'Time to download media from Telegram.',
+);
+export const ffmpegSeconds = createHistogram(
+  'voiceoverbot_ffmpeg_duration_seconds',
+  'Time spent in ffmpeg and ffprobe, by operation.',
+);
+export const modelSeconds = createHistogram(
+  'voiceoverbot_model_duration_seconds',
+  'Time spent in transcription provider calls, by provider and operation.',
+);
+export const retriesTotal = createCounter(
+  'voiceoverbot_retries_total',
+  'Retried attempts, by operation and error kind.',
+);
+export const errorsTotal = createCounter(
+  'voiceoverbot_errors_total',
+  'Failures, by stage and error class.',
+);
+export const audioSecondsTotal = createCounter(
+  'voiceoverbot_audio_seconds_total',
+  'Seconds of audio transcribed, by media kind.',
+);
+export const modelTokensTotal = createCounter(
+  'voiceoverbot_model_tokens_total',
+  'Tokens reported by the model, by provider, model and direction.',
+);
+
+/** Tokens and models used by the model calls of one job. */
+export interface TokenTally {
+  inputTokens: number;
+  outputTokens: number;
+  models: string[];
+}
+
+const tokenTally = new AsyncLocalStorage<TokenTally>();
+
+/**
+ * Runs `fn` and returns, along with its result, the token usage that its
+ * model calls reported through recordTokenUsage (for usage accounting).
+ */
+export async function tallyTokens<T>(
+  fn: () => Promise<T>,
+): Promise<[T, TokenTally]> {
+  const tally: TokenTally = { inputTokens: 0, outputTokens: 0, models: [] };
+  const result = await tokenTally.run(tally, fn);
+  return [result, tally];
+}
+
+/**
+ * Records the token usage returned by `generateText`.
+ */
+export function recordTokenUsage(
+  provider: string,
+  model: string,
+  usage: { promptTokens?: number; completionTokens?: number } | undefined,
+) {
+  const tally = tokenTally.getStore();
+  if (tally) {
+    tally.inputTokens += usage?.promptTokens || 0;
+    tally.outputTokens += usage?.completionTokens || 0;
+    if (!tally.models.includes(model)) tally.models.push(model);
+  }
+  if (usage?.promptTokens) {
+    modelTokensTotal.inc(
+      { provider, model, direction: 'input' },
+      usage.promptTokens,
+    );
+  }
+  if (usage?.completionTokens) {
+    modelTokensTotal.inc(
+      { provider, model, direction: 'output' },
+      usage.completionTokens,
+    );
+  }
+}
+
+/**
+ * All metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics() {
+  return `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+}
@@ -0,0 +1,144 @@
+import {
+  openAiResponseFormat,
+  openAiTranscriptionApiKey,
+  openAiTranscriptionModel,
+  openAiTranscriptionUrl,
+  transcriptionTimeoutMs,
+} from './config.js';
+import {
+  parseRetryAfter,
+  RateLimitedError,
+  RequestRejectedError,
+} from './errors.js';
+import { recordTokenUsage } from './metrics.js';
+import { log, extensionForMimeType } from './utils.js';
+import type {
+  ProviderTranscribeOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from './transcriptionProviders.js';
+
+const OPENAI_PROMPT_MAX_CHARS = 800;
+
+// Languages Whisper detects. Its verbose_json names the detected language
+// in English ("english") instead of giving the code.
+const WHISPER_LANGUAGE_CODES =
+  'af am ar as az ba be bg bn bo br bs ca cs cy da de el en es et eu fa fi fo fr gl gu ha he hi hr ht hu hy id is it ja jv ka kk km kn ko la lb ln lo lt lv mg mi mk ml mn mr ms mt my ne nl nn no oc pa pl ps pt ro ru sa sd si sk sl sn so sq sr su sv sw ta te tg th tk tl tr tt uk ur uz vi yi yo zh'.split(
+    ' ',
+  );
+let languageCodesByName: Map<string, string> | undefined;
+
+/** ISO 639-1 code of a reported language, given as a code or a name. */
+function languageCode(language?: string) {
+  const value = language?.trim().toLowerCase();
+  if (!value) return undefined;
+  if (/^[a-z]{2}$/.test(value)) return value;
+  if (!languageCodesByName) {
+    const names = new Intl.DisplayNames(['en'], { type: 'language' });
+    languageCodesByName = new Map(
+      WHISPER_LANGUAGE_CODES.map((code) => [
+        (names.of(code) || code).toLowerCase(),
+        code,
+      ]),
+    );
+  }
+  return languageCodesByName.get(value);
+}
+
+/**
+ * Transcribes audio through an OpenAI-compatible `/v1/audio/transcriptions`
+ * endpoint (OpenAI itself, a self-hosted whisper server, etc.).
+ * These backends only return plain text, so no TLDR, notes or action
+ * items are produced.
+ */
+async function transcribeWithOpenAi(
+  audioBuffer: Buffer,
+  mimeType: string,
+  options: ProviderTranscribeOptions = {},
+): Promise<TranscriptionResult> {
+  log(
+    `Starting audio transcription via ${openAiTranscriptionUrl} (model: ${openAiTranscriptionModel}) for mimeType: ${mimeType}...`,
+  );
+
+  // Whisper-style servers pick the decoder from the file extension,
+  // so the upload needs a sensible file name.
+  const extension = extensionForMimeType(mimeType);
+  const form = new FormData();
+  form.append(
+    'file',
+    new Blob([audioBuffer], { type: mimeType }),
+    `audio.${extension}`,
+  );
+  form.append('model', openAiTranscriptionModel);
+  // verbose_json adds timestamped segments; plain servers may ignore it
+  form.append('response_format', openAiResponseFormat);
+  if (options.languageHint) {
+    form.append('language', options.languageHint);
+  }
+  if (options.vocabulary?.length) {
+    // Whisper reads the prompt as preceding text and only looks at its
+    // last ~224 tokens, so keep the list short.
+    form.append(
+      'prompt',
+      options.vocabulary.join(', ').slice(0, OPENAI_PROMPT_MAX_CHARS),
+    );
+  }
+
+  const response = await fetch(openAiTranscriptionUrl, {
+    method: 'POST',
+    headers: openAiTranscriptionApiKey
+      ? { Authorization: `Bearer ${openAiTranscriptionApiKey}` }
+      : undefined,
+    body: form,
+    signal: AbortSignal.timeout(transcriptionTimeoutMs),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    if (response.status === 429) {
+      throw new RateLimitedError(
+        `Transcription server is rate limiting: ${details.slice(0, 200)}`,
+        { retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) },
+      );
+    }
+    const message = `Transcription server responded with ${response.status} ${response.statusText}: ${details.slice(0, 200)}`;
+    // Bad requests and credentials fail the same way on every attempt
+    throw response.status < 500
+      ? new RequestRejectedError(message)
+      : new Error(message);
+  }
+
+  // Segments and the language only come with verbose_json
+  const payload = (await response.json()) as {
+    text?: string;
+    language?: string;
+    segments?: { start: number; end: number; text: string }[];
+    /** Only token-billed models (e.g. gpt-4o-transcribe) report usage. */
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  if (typeof payload.text !== 'string') {
+    throw new Error('Transcription server response did not contain text');
+  }
+
+  recordTokenUsage('openai', openAiTranscriptionModel, {
+    promptTokens: payload.usage?.input_tokens,
+    completionTokens: payload.usage?.output_tokens,
+  });
+
+  const segments = payload.segments
+    ?.map(({ start, end, text }) => ({ start, end, text: text.trim() }))
+    .filter((segment) => segment.text);
+  const language = languageCode(payload.language);
+  return {
+    transcribedText: payload.text.trim(),
+    tldr: null,
+    segments: segments?.length ? segments : undefined,
+    ...(language && { language }),
+  };
+}
+
+export const openAiProvider: TranscriptionProvider = {
+  name: 'openai',
+  modes: ['clean', 'verbatim'],
+  transcribe: transcribeWithOpenAi,
+};
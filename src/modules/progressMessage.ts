@@ -0,0 +1,135 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import { t } from './i18n.js';
+import { log } from './utils.js';
+
+export type ProgressStage =
+  | { stage: 'queued'; position: number }
+  | { stage: 'downloading' }
+  | { stage: 'extracting' }
+  | { stage: 'transcribing'; chunk?: number; totalChunks?: number }
+  | { stage: 'summarizing' }
+  | { stage: 'translating' };
+
+export type ProgressCallback = (progress: ProgressStage) => void;
+
+export interface ProgressMessage {
+  /** Shows a new stage; edits are throttled and coalesced. */
+  report: ProgressCallback;
+  /**
+   * Stops further progress edits and returns the placeholder's message
+   * id, so the final reply can replace it. Undefined if it wasn't sent.
+   */
+  takeOver(): Promise<number | undefined>;
+  /** Replaces the placeholder with an error message. */
+  fail(text: string): Promise<void>;
+}
+
+// Telegram allows roughly one edit per second per chat
+const MIN_EDIT_INTERVAL_MS = 1500;
+
+function describeStage(progress: ProgressStage, locale?: string) {
+  switch (progress.stage) {
+    case 'queued':
+      return t(locale, 'progressQueued', { position: progress.position });
+    case 'downloading':
+      return t(locale, 'progressDownloading');
+    case 'extracting':
+      return t(locale, 'progressExtracting');
+    case 'transcribing':
+      return progress.chunk && progress.totalChunks
+        ? t(locale, 'progressTranscribingChunk', {
+            chunk: progress.chunk,
+            total: progress.totalChunks,
+          })
+        : t(locale, 'progressTranscribing');
+    case 'summarizing':
+      return t(locale, 'progressSummarizing');
+    case 'translating':
+      return t(locale, 'progressTranslating');
+  }
+}
+
+/**
+ * Posts a placeholder reply to a media message and keeps it updated with
+ * the job's progress, in `locale`, until the transcript (or an error)
+ * replaces it.
+ */
+export function createProgressMessage(
+  bot: TelegramBot,
+  chatId: number,
+  replyToMessageId: number,
+  initial: ProgressStage,
+  locale?: string,
+): ProgressMessage {
+  let lastText = describeStage(initial, locale);
+  let lastEditAt = Date.now();
+  let pending: string | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let finished = false;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const placeholder: Promise<number | undefined> = bot
+    .sendMessage(chatId, lastText, { reply_to_message_id: replyToMessageId })
+    .then((message) => message.message_id)
+    .catch((error) => {
+      log(
+        `Failed to send progress message to chat ${chatId}: ${(error as Error).message}`,
+      );
+      return undefined;
+    });
+
+  const edit = async (text: string) => {
+    const messageId = await placeholder;
+    if (!messageId) return;
+    try {
+      await bot.editMessageText(text, {
+        chat_id: chatId,
+        message_id: messageId,
+      });
+    } catch (error) {
+      log(
+        `Failed to update progress message in chat ${chatId}: ${(error as Error).message}`,
+      );
+    }
+  };
+
+  const flush = async () => {
+    timer = null;
+    if (finished || pending === null || pending === lastText) return;
+    lastText = pending;
+    pending = null;
+    lastEditAt = Date.now();
+    inFlight = edit(lastText);
+    await inFlight;
+  };
+
+  const takeOver = async () => {
+    finished = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    // A late progress edit must not overwrite the final reply
+    await inFlight;
+    return placeholder;
+  };
+
+  return {
+    report(progress) {
+      if (finished) return;
+      pending = describeStage(progress, locale);
+      if (timer) return;
+      const wait = Math.max(0, lastEditAt + MIN_EDIT_INTERVAL_MS - Date.now());
+      timer = setTimeout(() => void flush(), wait);
+    },
+    takeOver,
+    async fail(text) {
+      const messageId = await takeOver();
+      if (messageId) {
+        await edit(text);
+        return;
+      }
+      await bot.sendMessage(chatId, text, {
+        reply_to_message_id: replyToMessageId,
+      });
+    },
+  };
+}
@@ -0,0 +1,78 @@
+export interface RateLimiterOptions {
+  /** Requests a user can make in a burst. */
+  burst: number;
+  /** Tokens refilled per minute. */
+  perMinute: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      retryAfterSeconds: number;
+      /** True the first time a user hits the limit, until they recover. */
+      firstRejection: boolean;
+    };
+
+export interface RateLimiter {
+  consume(key: number | string): RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  notified: boolean;
+}
+
+/**
+ * Per-key token bucket. Buckets that have refilled completely are
+ * dropped so idle users don't accumulate in memory.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.perMinute / 60000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(
+      options.burst,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+    );
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= options.burst) buckets.delete(key);
+    }
+  };
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      if (buckets.size > 10000) prune(now);
+
+      const bucketKey = String(key);
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = { tokens: options.burst, updatedAt: now, notified: false };
+        buckets.set(bucketKey, bucket);
+      }
+      refill(bucket, now);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        bucket.notified = false;
+        return { allowed: true };
+      }
+
+      const firstRejection = !bucket.notified;
+      bucket.notified = true;
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+        firstRejection,
+      };
+    },
+  };
+}
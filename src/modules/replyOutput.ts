@@ -0,0 +1,255 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+import {
+  transcriptDocumentFormat,
+  transcriptDocumentThreshold,
+} from './config.js';
+import {
+  isEntityParseError,
+  renderTranscriptCaption,
+  renderTranscriptFile,
+  renderTranscriptMessages,
+  type RenderedMessage,
+  type TranscriptView,
+} from './formatter.js';
+import { log, retry } from './utils.js';
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+export const TELEGRAM_CAPTION_LIMIT = 1024;
+
+export interface TranscriptReply extends TranscriptView {
+  /** Used to name the attached transcript file. */
+  sourceName?: string;
+  /** Inline keyboard attached to the last message of the reply. */
+  replyMarkup?: TelegramBot.InlineKeyboardMarkup;
+  /**
+   * A message of ours (the progress placeholder) that the reply replaces:
+   * it is edited into the first part, or deleted for file replies.
+   */
+  replaceMessageId?: number;
+}
+
+/**
+ * Runs a Telegram send or edit, retrying it after the wait Telegram asks
+ * for when it hits a flood limit.
+ */
+function withFloodRetry<T>(call: () => Promise<T>): Promise<T> {
+  return retry(call, { operation: 'reply', kinds: ['rate_limited'] });
+}
+
+function documentFileName(sourceName?: string) {
+  const base = sourceName
+    ? sourceName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')
+    : 'transcript';
+  return `${base}.${transcriptDocumentFormat}`;
+}
+
+/**
+ * Sends a rendered message as HTML, falling back to its plain-text
+ * version if Telegram rejects the entities.
+ */
+export async function sendRenderedMessage(
+  bot: TelegramBot,
+  chatId: number | string,
+  rendered: RenderedMessage,
+  options: TelegramBot.SendMessageOptions = {},
+): Promise<Message> {
+  try {
+    return await withFloodRetry(() =>
+      bot.sendMessage(chatId, rendered.html, {
+        ...options,
+        parse_mode: 'HTML',
+      }),
+    );
+  } catch (error) {
+    if (!isEntityParseError(error)) throw error;
+    log(
+      `Telegram rejected HTML reply in chat ${chatId}, resending as plain text: ${(error as Error).message}`,
+    );
+    return withFloodRetry(() =>
+      bot.sendMessage(chatId, rendered.plain, {
+        ...options,
+        parse_mode: undefined,
+      }),
+    );
+  }
+}
+
+function isNotModifiedError(error: unknown) {
+  return ((error as Error)?.message || '').includes('message is not modified');
+}
+
+/**
+ * Edits the text (or, for files, the caption) of one of our messages to
+ * a rendered message, falling back to plain text like
+ * sendRenderedMessage. Returns the edited message, or null if the content
+ * was already the same.
+ */
+async function editRenderedMessage(
+  bot: TelegramBot,
+  chatId: number | string,
+  messageId: number,
+  rendered: RenderedMessage,
+  replyMarkup: TelegramBot.InlineKeyboardMarkup | undefined,
+  isCaption: boolean,
+): Promise<Message | null> {
+  const target = {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: replyMarkup,
+  };
+  const edit = (text: string, parseMode?: TelegramBot.ParseMode) =>
+    withFloodRetry(
+      async () =>
+        (isCaption
+          ? await bot.editMessageCaption(text, {
+              ...target,
+              parse_mode: parseMode,
+            })
+          : await bot.editMessageText(text, {
+              ...target,
+              parse_mode: parseMode,
+            })) as Message,
+    );
+  try {
+    return await edit(rendered.html, 'HTML');
+  } catch (error) {
+    if (isNotModifiedError(error)) return null;
+    if (!isEntityParseError(error)) throw error;
+    log(
+      `Telegram rejected HTML edit in chat ${chatId}, retrying as plain text: ${(error as Error).message}`,
+    );
+    return edit(rendered.plain);
+  }
+}
+
+/**
+ * Delivers a transcript as a reply. Short transcripts go inline (split
+ * over several messages when needed); transcripts longer than
+ * TRANSCRIPT_DOCUMENT_THRESHOLD characters are attached as a file with
+ * only the TLDR in the caption.
+ */
+export async function sendTranscriptReply(
+  bot: TelegramBot,
+  chatId: number | string,
+  replyToMessageId: number,
+  reply: TranscriptReply,
+): Promise<Message[]> {
+  if (reply.transcribedText.length > transcriptDocumentThreshold) {
+    log(
+      `Transcript is ${reply.transcribedText.length} characters, sending it as a document`,
+    );
+    const caption = renderTranscriptCaption(reply, TELEGRAM_CAPTION_LIMIT);
+    const file = Buffer.from(
+      renderTranscriptFile(reply, transcriptDocumentFormat),
+      'utf8',
+    );
+    const fileOptions = {
+      filename: documentFileName(reply.sourceName),
+      contentType:
+        transcriptDocumentFormat === 'md' ? 'text/markdown' : 'text/plain',
+    };
+    let sent: Message;
+    try {
+      sent = await withFloodRetry(() =>
+        bot.sendDocument(
+          chatId,
+          file,
+          {
+            caption: caption.html,
+            parse_mode: 'HTML',
+            reply_to_message_id: replyToMessageId,
+            reply_markup: reply.replyMarkup,
+          },
+          fileOptions,
+        ),
+      );
+    } catch (error) {
+      if (!isEntityParseError(error)) throw error;
+      sent = await withFloodRetry(() =>
+        bot.sendDocument(
+          chatId,
+          file,
+          {
+            caption: caption.plain,
+            reply_to_message_id: replyToMessageId,
+            reply_markup: reply.replyMarkup,
+          },
+          fileOptions,
+        ),
+      );
+    }
+    // A text message can't turn into a file, so the placeholder goes
+    if (reply.replaceMessageId) {
+      await bot.deleteMessage(chatId, reply.replaceMessageId).catch((error) => {
+        log(
+          `Failed to delete progress message in chat ${chatId}: ${(error as Error).message}`,
+        );
+      });
+    }
+    return [sent];
+  }
+
+  const messages = renderTranscriptMessages(reply, TELEGRAM_MESSAGE_LIMIT);
+  const sent: Message[] = [];
+  for (const [i, rendered] of messages.entries()) {
+    const replyMarkup =
+      i === messages.length - 1 ? reply.replyMarkup : undefined;
+    if (i === 0 && reply.replaceMessageId) {
+      const edited = await editRenderedMessage(
+        bot,
+        chatId,
+        reply.replaceMessageId,
+        rendered,
+        replyMarkup,
+        false,
+      ).catch((error) => {
+        log(
+          `Failed to replace progress message in chat ${chatId}, sending a new reply: ${(error as Error).message}`,
+        );
+        return null;
+      });
+      if (edited) {
+        sent.push(edited);
+        continue;
+      }
+    }
+    // Only the first message is a reply; the rest simply follow it
+    sent.push(
+      await sendRenderedMessage(bot, chatId, rendered, {
+        reply_to_message_id: i === 0 ? replyToMessageId : undefined,
+        reply_markup: replyMarkup,
+      }),
+    );
+  }
+  return sent;
+}
+
+/**
+ * Replaces the content of an earlier transcript reply in place. Text
+ * replies are edited if the new content fits in one message; document
+ * replies only get a new caption. Returns false when the reply can't be
+ * edited and has to be sent again instead.
+ */
+export async function editTranscriptReply(
+  bot: TelegramBot,
+  chatId: number | string,
+  messageId: number,
+  reply: TranscriptReply,
+  isDocument: boolean,
+): Promise<boolean> {
+  const rendered = isDocument
+    ? renderTranscriptCaption(reply, TELEGRAM_CAPTION_LIMIT)
+    : renderTranscriptMessages(reply, TELEGRAM_MESSAGE_LIMIT);
+  if (Array.isArray(rendered) && rendered.length > 1) return false;
+
+  await editRenderedMessage(
+    bot,
+    chatId,
+    messageId,
+    Array.isArray(rendered) ? rendered[0] : rendered,
+    reply.replyMarkup,
+    isDocument,
+  );
+  return true;
+}
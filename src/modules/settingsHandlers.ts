@@ -0,0 +1,355 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { CallbackQuery, Message } from 'node-telegram-bot-api';
+import {
+  chatHistoryMaxEntries,
+  geminiModelId,
+  languageHintChoices,
+  modelChoices,
+  transcriptionProvider,
+} from './config.js';
+import {
+  defaultChatSettings,
+  getChatSettings,
+  isTranscriptionMode,
+  tldrThresholdChoices,
+  transcriptionModes,
+  updateChatSettings,
+  type ChatSettings,
+  type TranscriptionMode,
+} from './chatSettings.js';
+import { accessDecision } from './accessControl.js';
+import { escapeHtml } from './formatter.js';
+import {
+  localeFor,
+  resolveLocale,
+  supportedLocales,
+  t,
+  type MessageKey,
+} from './i18n.js';
+import { getTranscriptionProviderNames } from './transcriptionProviders.js';
+import { isChatAdmin, log } from './utils.js';
+
+const CALLBACK_PREFIX = 'settings:';
+
+function nextChoice<T>(choices: T[], current: T): T {
+  const index = choices.indexOf(current);
+  return choices[(index + 1) % choices.length];
+}
+
+function renderSettingsText(settings: ChatSettings, locale: string) {
+  const onOff = (on: boolean) => t(locale, on ? 'settingsOn' : 'settingsOff');
+  const orDefault = (value: string | null, fallback: string) =>
+    escapeHtml(value || t(locale, 'settingsDefaultValue', { value: fallback }));
+  const line = (key: MessageKey, value: string) => t(locale, key, { value });
+  return [
+    t(locale, 'settingsTitle'),
+    '',
+    line(
+      'settingsTldr',
+      settings.tldrEnabled
+        ? t(locale, 'settingsTldrOn', { threshold: settings.tldrThreshold })
+        : onOff(false),
+    ),
+    line('settingsMode', settings.transcriptionMode),
+    line('settingsSpeakers', onOff(settings.diarization)),
+    line(
+      'settingsLanguageHint',
+      escapeHtml(settings.languageHint || t(locale, 'settingsAuto')),
+    ),
+    line('settingsModel', orDefault(settings.model, geminiModelId)),
+    line(
+      'settingsProvider',
+      orDefault(settings.provider, transcriptionProvider),
+    ),
+    line(
+      'settingsArchive',
+      settings.historyRetentionDays
+        ? t(locale, 'settingsArchiveDays', {
+            days: settings.historyRetentionDays,
+          })
+        : t(locale, 'settingsArchiveEntries', { count: chatHistoryMaxEntries }),
+    ),
+    line(
+      'settingsInterface',
+      escapeHtml(settings.uiLanguage || t(locale, 'settingsInterfaceUser')),
+    ),
+    line(
+      'settingsTranslate',
+      settings.translateTo
+        ? t(locale, 'settingsTranslateInto', {
+            language: escapeHtml(settings.translateTo),
+          })
+        : onOff(false),
+    ),
+    '',
+    t(locale, 'settingsHint'),
+  ].join('\n');
+}
+
+function renderSettingsKeyboard(
+  settings: ChatSettings,
+  locale: string,
+): TelegramBot.InlineKeyboardMarkup {
+  const button = (text: string, action: string) => ({
+    text,
+    callback_data: `${CALLBACK_PREFIX}${action}`,
+  });
+  const label = (key: MessageKey, value: string | number) =>
+    t(locale, key, { value });
+  const onOff = (on: boolean) => t(locale, on ? 'settingsOn' : 'settingsOff');
+  const orDefault = (value: string | null) =>
+    value || t(locale, 'settingsDefault');
+  return {
+    inline_keyboard: [
+      [
+        button(label('settingsTldr', onOff(settings.tldrEnabled)), 'tldr'),
+        button(
+          label('settingsButtonThreshold', settings.tldrThreshold),
+          'threshold',
+        ),
+      ],
+      [
+        button(label('settingsMode', settings.transcriptionMode), 'mode'),
+        button(
+          label('settingsButtonSpeakers', onOff(settings.diarization)),
+          'speakers',
+        ),
+      ],
+      [
+        button(
+          label(
+            'settingsButtonLanguage',
+            settings.languageHint || t(locale, 'settingsAuto'),
+          ),
+          'language',
+        ),
+      ],
+      [button(label('settingsModel', orDefault(settings.model)), 'model')],
+      [
+        button(
+          label('settingsProvider', orDefault(settings.provider)),
+          'provider',
+        ),
+      ],
+      [
+        button(t(locale, 'settingsButtonReset'), 'reset'),
+        button(t(locale, 'settingsButtonClose'), 'close'),
+      ],
+    ],
+  };
+}
+
+/**
+ * Defaults of the settings the keyboard shows. Reset leaves the others
+ * (retention, interface and translation language) alone.
+ */
+function keyboardDefaults(): Partial<ChatSettings> {
+  const {
+    tldrEnabled,
+    tldrThreshold,
+    transcriptionMode,
+    diarization,
+    languageHint,
+    model,
+    provider,
+  } = defaultChatSettings;
+  return {
+    tldrEnabled,
+    tldrThreshold,
+    transcriptionMode,
+    diarization,
+    languageHint,
+    model,
+    provider,
+  };
+}
+
+/**
+ * Returns the settings after applying one button press, or null for
+ * actions that don't change anything.
+ */
+function applySettingsAction(
+  chatId: number,
+  action: string,
+): ChatSettings | null {
+  const settings = getChatSettings(chatId);
+  switch (action) {
+    case 'tldr':
+      return updateChatSettings(chatId, {
+        tldrEnabled: !settings.tldrEnabled,
+      });
+    case 'threshold':
+      return updateChatSettings(chatId, {
+        tldrThreshold: nextChoice(tldrThresholdChoices, settings.tldrThreshold),
+      });
+    case 'mode':
+      return updateChatSettings(chatId, {
+        transcriptionMode: nextChoice<TranscriptionMode>(
+          [...transcriptionModes],
+          settings.transcriptionMode,
+        ),
+      });
+    case 'speakers':
+      return updateChatSettings(chatId, {
+        diarization: !settings.diarization,
+      });
+    case 'language':
+      return updateChatSettings(chatId, {
+        languageHint: nextChoice<string | null>(
+          [null, ...languageHintChoices],
+          settings.languageHint,
+        ),
+      });
+    case 'model':
+      return updateChatSettings(chatId, {
+        model: nextChoice<string | null>(
+          [null, ...modelChoices.filter((m) => m !== geminiModelId)],
+          settings.model,
+        ),
+      });
+    case 'provider':
+      return updateChatSettings(chatId, {
+        provider: nextChoice<string | null>(
+          [null, ...getTranscriptionProviderNames()],
+          settings.provider,
+        ),
+      });
+    case 'reset':
+      return updateChatSettings(chatId, keyboardDefaults());
+    default:
+      return null;
+  }
+}
+
+async function handleSettingsCommand(
+  bot: TelegramBot,
+  msg: Message,
+  args: string,
+) {
+  const chatId = msg.chat.id;
+  const [option, value] = args.trim().split(/\s+/);
+
+  if (option) {
+    if (!(await isChatAdmin(bot, msg.chat, msg.from?.id))) {
+      await bot.sendMessage(chatId, t(localeFor(msg), 'settingsAdminOnly'), {
+        reply_to_message_id: msg.message_id,
+      });
+      return;
+    }
+    if (option === 'language' && /^(auto|[a-z]{2,3})$/i.test(value || '')) {
+      updateChatSettings(chatId, {
+        languageHint:
+          value.toLowerCase() === 'auto' ? null : value.toLowerCase(),
+      });
+    } else if (option === 'mode' && isTranscriptionMode(value)) {
+      updateChatSettings(chatId, { transcriptionMode: value });
+    } else if (option === 'threshold' && Number(value) > 0) {
+      updateChatSettings(chatId, { tldrThreshold: Math.round(Number(value)) });
+    } else if (
+      option === 'retention' &&
+      (value === 'off' || Number(value) >= 1)
+    ) {
+      updateChatSettings(chatId, {
+        historyRetentionDays:
+          value === 'off' ? null : Math.round(Number(value)),
+      });
+    } else if (
+      option === 'interface' &&
+      (value === 'auto' || supportedLocales().includes(value?.toLowerCase()))
+    ) {
+      updateChatSettings(chatId, {
+        uiLanguage: value === 'auto' ? null : value.toLowerCase(),
+      });
+    } else if (
+      option === 'translate' &&
+      /^(off|[a-z]{2,3})$/i.test(value || '')
+    ) {
+      updateChatSettings(chatId, {
+        translateTo: value.toLowerCase() === 'off' ? null : value.toLowerCase(),
+      });
+    } else {
+      await bot.sendMessage(
+        chatId,
+        t(localeFor(msg), 'settingsUsage', {
+          modes: transcriptionModes.join('|'),
+          locales: supportedLocales().join('|'),
+        }),
+        { reply_to_message_id: msg.message_id },
+      );
+      return;
+    }
+  }
+
+  // After the update, so a new interface language shows right away
+  const locale = localeFor(msg);
+  const settings = getChatSettings(chatId);
+  await bot.sendMessage(chatId, renderSettingsText(settings, locale), {
+    parse_mode: 'HTML',
+    reply_to_message_id: msg.message_id,
+    reply_markup: renderSettingsKeyboard(settings, locale),
+  });
+}
+
+async function handleSettingsCallback(bot: TelegramBot, query: CallbackQuery) {
+  const message = query.message;
+  if (!message || !query.data) return;
+  const action = query.data.slice(CALLBACK_PREFIX.length);
+
+  if (accessDecision(message.chat, query.from.id) !== 'allow') {
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+  if (!(await isChatAdmin(bot, message.chat, query.from.id))) {
+    await bot.answerCallbackQuery(query.id, {
+      text: t(
+        resolveLocale(message.chat.id, query.from.language_code),
+        'settingsAdminOnly',
+      ),
+      show_alert: true,
+    });
+    return;
+  }
+
+  if (action === 'close') {
+    await bot.deleteMessage(message.chat.id, message.message_id);
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+
+  const settings = applySettingsAction(message.chat.id, action);
+  if (settings) {
+    log(
+      `Settings of chat ${message.chat.id} changed by ${query.from.id}: ${action}`,
+    );
+    const locale = resolveLocale(message.chat.id, query.from.language_code);
+    await bot.editMessageText(renderSettingsText(settings, locale), {
+      chat_id: message.chat.id,
+      message_id: message.message_id,
+      parse_mode: 'HTML',
+      reply_markup: renderSettingsKeyboard(settings, locale),
+    });
+  }
+  await bot.answerCallbackQuery(query.id);
+}
+
+export function registerSettingsHandlers(bot: TelegramBot) {
+  bot.onText(/^\/settings(?:@\w+)?(?:\s+(.*))?$/, async (msg, match) => {
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleSettingsCommand(bot, msg, match?.[1] || '');
+    } catch (error) {
+      log(
+        `Failed to handle /settings in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+
+  bot.on('callback_query', async (query: CallbackQuery) => {
+    if (!query.data?.startsWith(CALLBACK_PREFIX)) return;
+    try {
+      await handleSettingsCallback(bot, query);
+    } catch (error) {
+      log(`Failed to handle settings button: ${(error as Error).message}`);
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import type {
+  TranscriptionResult,
+  TranscriptSegment,
+} from './transcriptionProviders.js';
+
+/** Longest speaker name accepted from a rename. */
+const MAX_NAME_LENGTH = 40;
+
+/**
+ * Consecutive segments of the same speaker joined into turns.
+ */
+function speakerTurns(segments: TranscriptSegment[]) {
+  const turns: { speaker: string; text: string }[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    const speaker = segment.speaker || last?.speaker || 'Speaker 1';
+    if (last && last.speaker === speaker) {
+      last.text = `${last.text} ${segment.text.trim()}`;
+    } else {
+      turns.push({ speaker, text: segment.text.trim() });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Rewrites a diarized result's text as "Speaker 1: …" turns. Results
+ * without speaker labels (e.g. from providers that can't diarize) are
+ * returned unchanged.
+ */
+export function withSpeakerTurns(
+  result: TranscriptionResult,
+): TranscriptionResult {
+  if (!result.segments?.some((segment) => segment.speaker)) return result;
+  const transcribedText = speakerTurns(result.segments)
+    .map(({ speaker, text }) => `${speaker}: ${text}`)
+    .join('\n\n');
+  return { ...result, transcribedText };
+}
+
+/** Speaker labels of a diarized result, in order of appearance. */
+export function speakerLabels(result: TranscriptionResult): string[] {
+  return [
+    ...new Set(
+      (result.segments || [])
+        .map((segment) => segment.speaker)
+        .filter((speaker): speaker is string => Boolean(speaker)),
+    ),
+  ];
+}
+
+/**
+ * Parses rename lines such as "Speaker 1 = Anna" (one per line). Returns
+ * null unless every non-empty line is a rename.
+ */
+export function parseSpeakerRenames(text: string): Map<string, string> | null {
+  const renames = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const match = line.match(/^\s*(.+?)\s*=\s*(.+?)\s*$/);
+    if (!match || match[2].length > MAX_NAME_LENGTH) return null;
+    renames.set(match[1], match[2]);
+  }
+  return renames.size ? renames : null;
+}
+
+/**
+ * Applies renames (label -> name, labels matched case-insensitively) to
+ * the segments and the turns of a diarized result.
+ */
+export function renameSpeakers(
+  result: TranscriptionResult,
+  renames: Map<string, string>,
+): TranscriptionResult {
+  const byLabel = new Map(
+    [...renames].map(([label, name]) => [label.toLowerCase(), name]),
+  );
+  const rename = (speaker?: string) =>
+    (speaker && byLabel.get(speaker.toLowerCase())) || speaker;
+  return withSpeakerTurns({
+    ...result,
+    segments: result.segments?.map((segment) => ({
+      ...segment,
+      speaker: rename(segment.speaker),
+    })),
+  });
+}
@@ -0,0 +1,125 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { CallbackQuery, Message } from 'node-telegram-bot-api';
+import { accessDecision } from './accessControl.js';
+import { localeFor, resolveLocale, t } from './i18n.js';
+import { renderSubtitles, type SubtitleFormat } from './subtitles.js';
+import { findTranscript, type StoredTranscript } from './transcriptStore.js';
+import { log } from './utils.js';
+
+const CALLBACK_PREFIX = 'subs:';
+
+/**
+ * Buttons shown under a transcript that has timestamped segments.
+ */
+export function subtitleButtons(
+  locale?: string,
+): TelegramBot.InlineKeyboardButton[] {
+  return (['srt', 'vtt'] as const).map((format) => ({
+    text: t(locale, 'buttonSubtitles', { format }),
+    callback_data: `${CALLBACK_PREFIX}${format}`,
+  }));
+}
+
+async function sendSubtitles(
+  bot: TelegramBot,
+  chatId: number,
+  replyToMessageId: number,
+  transcript: StoredTranscript,
+  format: SubtitleFormat,
+) {
+  const segments = transcript.result.segments || [];
+  await bot.sendDocument(
+    chatId,
+    Buffer.from(renderSubtitles(segments, format), 'utf8'),
+    { reply_to_message_id: replyToMessageId },
+    {
+      filename: `transcript_${transcript.sourceMessageId}.${format}`,
+      contentType: format === 'vtt' ? 'text/vtt' : 'application/x-subrip',
+    },
+  );
+  log(
+    `Sent ${format} subtitles (${segments.length} segments) to chat ${chatId}`,
+  );
+}
+
+async function handleSubtitlesCommand(
+  bot: TelegramBot,
+  msg: Message,
+  formatArg: string | undefined,
+) {
+  const chatId = msg.chat.id;
+  const target = msg.reply_to_message;
+  const transcript = target && findTranscript(chatId, target.message_id);
+  const format: SubtitleFormat =
+    formatArg?.toLowerCase() === 'vtt' ? 'vtt' : 'srt';
+
+  if (!transcript) {
+    await bot.sendMessage(chatId, t(localeFor(msg), 'subtitlesUsage'), {
+      reply_to_message_id: msg.message_id,
+    });
+    return;
+  }
+  if (!transcript.result.segments?.length) {
+    await bot.sendMessage(chatId, t(localeFor(msg), 'subtitlesNoTimestamps'), {
+      reply_to_message_id: msg.message_id,
+    });
+    return;
+  }
+  await sendSubtitles(bot, chatId, msg.message_id, transcript, format);
+}
+
+async function handleSubtitlesCallback(bot: TelegramBot, query: CallbackQuery) {
+  const message = query.message;
+  if (!message || !query.data) return;
+  if (accessDecision(message.chat, query.from.id) !== 'allow') {
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+  const format: SubtitleFormat =
+    query.data.slice(CALLBACK_PREFIX.length) === 'vtt' ? 'vtt' : 'srt';
+  const transcript = findTranscript(message.chat.id, message.message_id);
+
+  if (!transcript?.result.segments?.length) {
+    await bot.answerCallbackQuery(query.id, {
+      text: t(
+        resolveLocale(message.chat.id, query.from.language_code),
+        'subtitlesUnavailable',
+      ),
+      show_alert: true,
+    });
+    return;
+  }
+  await bot.answerCallbackQuery(query.id);
+  await sendSubtitles(
+    bot,
+    message.chat.id,
+    message.message_id,
+    transcript,
+    format,
+  );
+}
+
+export function registerSubtitleHandlers(bot: TelegramBot) {
+  bot.onText(
+    /^\/subtitles(?:@\w+)?(?:\s+(srt|vtt))?\s*$/i,
+    async (msg, match) => {
+      if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+      try {
+        await handleSubtitlesCommand(bot, msg, match?.[1]);
+      } catch (error) {
+        log(
+          `Failed to handle /subtitles in chat ${msg.chat.id}: ${(error as Error).message}`,
+        );
+      }
+    },
+  );
+
+  bot.on('callback_query', async (query: CallbackQuery) => {
+    if (!query.data?.startsWith(CALLBACK_PREFIX)) return;
+    try {
+      await handleSubtitlesCallback(bot, query);
+    } catch (error) {
+      log(`Failed to handle subtitles button: ${(error as Error).message}`);
+    }
+  });
+}
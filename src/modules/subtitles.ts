@@ -0,0 +1,45 @@
+import type { TranscriptSegment } from './transcriptionProviders.js';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+function formatTimestamp(totalSeconds: number, separator: ',' | '.') {
+  const ms = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const cueText = (segment: TranscriptSegment) =>
+  segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+
+/**
+ * Renders segments as SubRip (.srt) subtitles.
+ */
+export function renderSrt(segments: TranscriptSegment[]) {
+  return segments
+    .map(
+      (segment, i) =>
+        `${i + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${cueText(segment)}\n`,
+    )
+    .join('\n');
+}
+
+/**
+ * Renders segments as WebVTT (.vtt) subtitles.
+ */
+export function renderVtt(segments: TranscriptSegment[]) {
+  const cues = segments.map(
+    (segment) =>
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${cueText(segment)}\n`,
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function renderSubtitles(
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+) {
+  return format === 'vtt' ? renderVtt(segments) : renderSrt(segments);
+}
@@ -1,320 +1,662 @@
-import type { Message } from 'node-telegram-bot-api';
+import type { Message, User } from 'node-telegram-bot-api';
 import type TelegramBot from 'node-telegram-bot-api';
+import { randomUUID } from 'crypto';
 import {
+  isChatAdmin,
   log,
   retry,
-  downloadVoiceToBuffer,
-  extractAudioFromVideoNote,
   sendContinuousTypingAction,
+  withLogContext,
 } from './utils.js';
 import { transcribeAudio } from './aiService.js';
+import { sendTranscriptReply, type TranscriptReply } from './replyOutput.js';
+import {
+  getChatSettings,
+  isTranscriptionMode,
+  modeFromCaption,
+  type ChatSettings,
+  type TranscriptionMode,
+} from './chatSettings.js';
+import { getCachedTranscript, setCachedTranscript } from './transcriptCache.js';
+import {
+  rememberTranscript,
+  type MediaFile,
+  type StoredTranscript,
+} from './transcriptStore.js';
+import { registerSubtitleHandlers } from './subtitleHandlers.js';
+import {
+  registerTranscriptActionHandlers,
+  transcriptActionKeyboard,
+} from './transcriptActionHandlers.js';
+import type { TranscriptionResult } from './transcriptionProviders.js';
+import { registerSettingsHandlers } from './settingsHandlers.js';
+import { createJobQueue } from './jobQueue.js';
+import {
+  checkMediaLimits,
+  downloadAndNormalize,
+  mediaFromMessage,
+  mediaTitle,
+  type PreparedAudio,
+} from './mediaPipeline.js';
+import { checkQuota, recordUsage } from './usageStore.js';
+import { registerUsageHandlers } from './usageHandlers.js';
+import { recordHistory } from './chatHistory.js';
+import { registerDigestHandlers } from './digestHandlers.js';
+import { registerArchiveHandlers } from './archiveHandlers.js';
+import { getGlossary } from './glossary.js';
+import { registerGlossaryHandlers } from './glossaryHandlers.js';
+import { accessDecision } from './accessControl.js';
+import {
+  admitMessage,
+  admitNewChat,
+  registerAccessHandlers,
+} from './accessHandlers.js';
+import { errorKind, QuotaExceededError, type ErrorKind } from './errors.js';
+import { localeFor, resolveLocale, t, type MessageKey } from './i18n.js';
+import { createRateLimiter } from './rateLimiter.js';
+import {
+  audioSecondsTotal,
+  createGauge,
+  errorsTotal,
+  tallyTokens,
+} from './metrics.js';
+import {
+  createProgressMessage,
+  type ProgressCallback,
+  type ProgressMessage,
+} from './progressMessage.js';
+import {
+  queueConcurrency,
+  queueMaxSize,
+  queuePerChatConcurrency,
+  rateLimitBurst,
+  rateLimitPerMinute,
+} from './config.js';
 
 // Define a type for Telegram errors if available, or use 'any'
 interface TelegramError extends Error {
   code?: string | number; // Or the specific type for error codes
 }
 
-const supportedAudioMimeTypes = [
-  'audio/mpeg', // .mp3
-  'audio/mp4', // .m4a, .mp4 (though mp4 can be video, we're targeting audio)
-  'audio/ogg', // .ogg
-  'audio/wav', // .wav
-  'audio/x-m4a', // .m4a (alternative MIME type)
-  'audio/aac', // .aac
-];
-
-export function initializeTelegramHandlers(bot: TelegramBot) {
-  let localBotId: number; // Stores botId once fetched
-
-  bot
-    .getMe()
-    .then((me) => {
-      if (me && me.id) {
-        localBotId = me.id;
-        log(
-          `Telegram Handlers Initialized for Bot: ${me.username} (ID: ${localBotId})`,
-        );
-      } else {
-        log(
-          'Failed to get bot info for handlers: User object or ID is undefined. Some handlers might not work as expected.',
-        );
-        // process.exit(1); // Decide if this is critical enough to exit
-      }
-    })
-    .catch((err) => {
-      log(
-        `Failed to get bot info for handlers: ${(err as Error).message}. Some handlers might not work as expected.`,
-      );
-      // process.exit(1); // Decide if this is critical enough to exit
-    });
-
-  bot.on('chat_member', async (ctx) => {
-    // Ensure localBotId is set before using it
-    if (
-      localBotId &&
-      ctx.new_chat_member &&
-      ctx.new_chat_member.user.id === localBotId
-    ) {
+const jobQueue = createJobQueue({
+  globalConcurrency: queueConcurrency,
+  perChatConcurrency: queuePerChatConcurrency,
+  maxQueueSize: queueMaxSize,
+});
+createGauge(
+  'voiceoverbot_queue_running_jobs',
+  'Transcription jobs currently running.',
+  () => jobQueue.stats().running,
+);
+createGauge(
+  'voiceoverbot_queue_waiting_jobs',
+  'Transcription jobs waiting in the queue.',
+  () => jobQueue.stats().waiting,
+);
+const GET_ME_BASE_DELAY_MS = 1000;
+const GET_ME_MAX_DELAY_MS = 60_000;
+
+const userRateLimiter = createRateLimiter({
+  burst: rateLimitBurst,
+  perMinute: rateLimitPerMinute,
+});
+
+/**
+ * Admits a transcription job for `msg`: applies the rate limit of the
+ * requester (the sender, unless someone else asked for it), then runs
+ * `job` through the shared queue. Throttled users get one
+ * reply with their cooldown. Admitted jobs get a progress message right
+ * away (showing the queue position while they wait), which `job` keeps
+ * updated and finally replaces with the transcript.
+ */
+async function scheduleTranscription(
+  bot: TelegramBot,
+  msg: Message,
+  job: (progress: ProgressMessage) => Promise<void>,
+  requester: User | undefined = msg.from,
+) {
+  const chatId = msg.chat.id;
+  const replyOptions = { reply_to_message_id: msg.message_id };
+  const locale = localeFor({ chat: msg.chat, from: requester });
+  // Channel posts have no sender; rate limit the chat as a whole then
+  const limit = userRateLimiter.consume(requester?.id ?? `chat_${chatId}`);
+
+  try {
+    if (!limit.allowed) {
       log(
-        `Bot added to chat: ${ctx.chat.title || 'Untitled Chat'} (ID: ${
-          ctx.chat.id
-        }) by ${ctx.from.username || ctx.from.id}`,
+        `Rate limited ${requester?.id ?? 'chat'} in chat ${chatId}, retry in ${limit.retryAfterSeconds}s`,
       );
-      try {
+      if (limit.firstRejection) {
         await bot.sendMessage(
-          ctx.chat.id,
-          'Hello! I am a bot that transcribes voice messages and video notes (video circles). Please give me admin rights to track all voice messages in the chat.',
-        );
-      } catch (error) {
-        log(
-          `Failed to send welcome message to chat ${ctx.chat.id}: ${
-            (error as Error).message
-          }`,
+          chatId,
+          t(locale, 'rateLimited', { seconds: limit.retryAfterSeconds }),
+          replyOptions,
         );
       }
+      return;
     }
-  });
 
-  bot.on('voice', async (msg: Message) => {
-    const chatId = msg.chat.id;
-    if (!msg.voice || !msg.voice.file_id) {
-      log(`Received message in chat ${chatId} without voice data or file_id.`);
+    // The queue may start the job right away, before the progress
+    // message below exists
+    let resolveProgress!: (progress: ProgressMessage) => void;
+    const progressReady = new Promise<ProgressMessage>(
+      (resolve) => (resolveProgress = resolve),
+    );
+    // Every log line of the job carries these fields
+    const context = {
+      jobId: randomUUID().slice(0, 8),
+      chatId,
+      userId: requester?.id,
+      messageId: msg.message_id,
+    };
+    const result = jobQueue.enqueue(chatId, async () =>
+      withLogContext(context, async () => job(await progressReady)),
+    );
+    if (result.status === 'rejected') {
+      log(`Job queue is full, rejected message in chat ${chatId}`);
+      errorsTotal.inc({ stage: 'queue', class: 'queue_full' });
+      await bot.sendMessage(chatId, t(locale, 'queueFull'), replyOptions);
       return;
     }
-    const voiceFileId = msg.voice.file_id;
-    const messageId = msg.message_id;
-    const userId = msg.from?.id;
-    const username =
-      msg.from?.username || msg.from?.first_name || 'UnknownUser';
+    if (result.status === 'queued') {
+      log(`Queued job in chat ${chatId} at position ${result.position}`);
+    }
+    resolveProgress(
+      createProgressMessage(
+        bot,
+        chatId,
+        msg.message_id,
+        result.status === 'queued'
+          ? { stage: 'queued', position: result.position }
+          : { stage: 'downloading' },
+        locale,
+      ),
+    );
+  } catch (error) {
+    log(
+      `Failed to send queue status to chat ${chatId}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Runs `run` through the shared job queue and resolves with its result,
+ * for work that isn't a reply to a new message (e.g. reply buttons).
+ */
+function runQueued<T>(chatId: number, run: () => Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const result = jobQueue.enqueue(chatId, () => run().then(resolve, reject));
+    if (result.status === 'rejected') {
+      reject(new Error('Job queue is full'));
+    }
+  });
+}
+
+/** Who a transcription is accounted to. */
+interface UsageAccount {
+  userId?: number;
+  userName?: string;
+  chatId: number;
+  chatTitle?: string;
+}
 
+/**
+ * Transcribes prepared audio, caches the result and records the audio,
+ * bytes and tokens it used against the user and the chat.
+ */
+async function transcribeAndAccount(
+  audio: PreparedAudio,
+  media: MediaFile,
+  settings: ChatSettings,
+  account: UsageAccount,
+  onProgress?: ProgressCallback,
+): Promise<TranscriptionResult> {
+  const glossary = getGlossary(account.chatId);
+  // Provider calls are retried inside aiService, chunk by chunk
+  const [result, tally] = await tallyTokens(() =>
+    transcribeAudio(audio.buffer, audio.mimeType, {
+      chatId: account.chatId,
+      durationSeconds: audio.durationSeconds,
+      speechSeconds: audio.speechSeconds,
+      startOffsetSeconds: audio.trimmedStartSeconds,
+      settings,
+      glossary,
+      translateTo: settings.translateTo,
+      onProgress,
+    }),
+  );
+  audioSecondsTotal.inc({ kind: media.kind }, audio.durationSeconds);
+  recordUsage({
+    ...account,
+    audioSeconds: audio.durationSeconds,
+    bytes: audio.sourceBytes,
+    models: tally.models,
+    inputTokens: tally.inputTokens,
+    outputTokens: tally.outputTokens,
+  });
+  setCachedTranscript(
+    media.fileUniqueId,
+    account.chatId,
+    settings,
+    result,
+    glossary,
+  );
+  return result;
+}
+
+/**
+ * Refuses re-transcribing `record` for `requester` with a
+ * QuotaExceededError when the rate limit throttles them, or when they are
+ * already over quota judging by the duration Telegram reported for the
+ * media.
+ */
+function admitRetranscription(record: StoredTranscript, requester: User) {
+  const locale = resolveLocale(record.chatId, requester.language_code);
+  const limit = userRateLimiter.consume(requester.id);
+  if (!limit.allowed) {
     log(
-      `Received voice message from ${username} (ID: ${userId}) in chat ${chatId}`,
+      `Rate limited ${requester.id} in chat ${record.chatId}, retry in ${limit.retryAfterSeconds}s`,
     );
+    throw new QuotaExceededError(
+      t(locale, 'rateLimited', { seconds: limit.retryAfterSeconds }),
+    );
+  }
+  const quotaMessage = checkQuota(
+    requester.id,
+    record.chatId,
+    record.media.durationSeconds,
+    locale,
+  );
+  if (quotaMessage) throw new QuotaExceededError(quotaMessage);
+}
 
-    const typingAction = sendContinuousTypingAction(bot, chatId);
+/**
+ * Downloads a remembered media file again and transcribes it in `mode`,
+ * used by the "Re-transcribe" button. The work is accounted to the user
+ * who pressed it.
+ */
+function retranscribeStoredMedia(
+  bot: TelegramBot,
+  record: StoredTranscript,
+  mode: ChatSettings['transcriptionMode'],
+  requester: User,
+) {
+  const { chatId, media } = record;
+  return runQueued(chatId, async () => {
+    const audio = await retry(() => downloadAndNormalize(bot, media), {
+      operation: 'download',
+    });
+    const quotaMessage = checkQuota(
+      requester.id,
+      chatId,
+      audio.durationSeconds,
+      resolveLocale(chatId, requester.language_code),
+    );
+    if (quotaMessage) throw new QuotaExceededError(quotaMessage);
+    const settings = { ...getChatSettings(chatId), transcriptionMode: mode };
+    return transcribeAndAccount(audio, media, settings, {
+      userId: requester.id,
+      userName: requester.username || requester.first_name,
+      chatId,
+    });
+  });
+}
 
-    try {
-      typingAction.start();
-      log('Downloading voice file...');
-      const audioBuffer = await retry(() =>
-        downloadVoiceToBuffer(bot, voiceFileId),
-      );
-      log(
-        `Voice file downloaded (${(audioBuffer.length / 1024).toFixed(2)} KB)`,
-      );
+/**
+ * Display name of who spoke in a message: the original sender of a
+ * forwarded message, else the sender.
+ */
+function senderName(msg: Message) {
+  const user = msg.forward_from ?? msg.from;
+  if (!user) return msg.forward_sender_name || msg.chat.title || 'Unknown';
+  return (
+    [user.first_name, user.last_name].filter(Boolean).join(' ') ||
+    user.username ||
+    String(user.id)
+  );
+}
 
-      log('Transcribing audio...');
-      const { transcribedText, tldr } = await retry(() =>
-        transcribeAudio(audioBuffer),
-      );
-      log('Transcription received: ' + tldr); // Consider logging less in production
-      let template: string =
-        tldr?.trim() && tldr.length > 0
-          ? `<b>TLDR:</b>\n${tldr}\n<b>Original text:</b>\n${transcribedText}`
-          : transcribedText;
-
-      typingAction.stop();
-      await bot.sendMessage(chatId, template, {
-        reply_to_message_id: messageId,
-        parse_mode: 'HTML',
-      });
-      log(`Replied to ${username} in chat ${chatId}`);
+/**
+ * Sends the transcript as a reply to `msg` with the action buttons and
+ * remembers it for follow-up commands such as /subtitles.
+ */
+async function deliverTranscript(
+  bot: TelegramBot,
+  msg: Message,
+  media: MediaFile,
+  result: TranscriptionResult,
+  settings: ChatSettings,
+  details: Pick<
+    TranscriptReply,
+    'title' | 'sourceName' | 'replaceMessageId'
+  > = {},
+) {
+  const record = {
+    chatId: msg.chat.id,
+    sourceMessageId: msg.message_id,
+    senderId: msg.from?.id,
+    media,
+    mode: settings.transcriptionMode,
+    result,
+    view: { kind: 'transcript' } as const,
+    locale: localeFor(msg),
+  };
+  const sent = await sendTranscriptReply(bot, msg.chat.id, msg.message_id, {
+    ...details,
+    ...result,
+    locale: record.locale,
+    replyMarkup: transcriptActionKeyboard(record),
+  });
+  rememberTranscript({
+    ...record,
+    replyMessageIds: sent.map((message) => message.message_id),
+    sentAsDocument: sent.some((message) => Boolean(message.document)),
+  });
+  recordHistory(msg.chat.id, {
+    messageId: msg.message_id,
+    senderId: msg.forward_from?.id ?? msg.from?.id,
+    senderName: senderName(msg),
+    sentAt: msg.date * 1000,
+    kind: media.kind,
+    text: result.transcribedText,
+  });
+}
+
+/**
+ * Replies with a cached transcript of the same file (e.g. a forwarded
+ * voice message) if there is one. Returns whether it did.
+ */
+async function replyFromCache(
+  bot: TelegramBot,
+  msg: Message,
+  media: MediaFile,
+  settings: ChatSettings,
+  details: Pick<TranscriptReply, 'title' | 'sourceName'> = {},
+) {
+  const cached = getCachedTranscript(
+    media.fileUniqueId,
+    msg.chat.id,
+    settings,
+    getGlossary(msg.chat.id),
+  );
+  if (!cached) return false;
+
+  log(`Transcript cache hit for ${media.fileUniqueId} in chat ${msg.chat.id}`);
+  try {
+    await deliverTranscript(bot, msg, media, cached, settings, details);
+  } catch (error) {
+    log(
+      `Failed to send cached transcript to chat ${msg.chat.id}: ${(error as Error).message}`,
+    );
+  }
+  return true;
+}
+
+/** Replies to failed transcriptions, by error kind. */
+const errorReplies: Partial<Record<ErrorKind, MessageKey>> = {
+  download: 'errorDownload',
+  decode: 'errorFormat',
+  silent_audio: 'errorSilent',
+  too_long: 'errorTooLong',
+  model_timeout: 'errorTimeout',
+  model_refusal: 'errorRefused',
+  unsupported_mode: 'errorUnsupportedMode',
+  rate_limited: 'errorRateLimited',
+};
+
+/**
+ * Calls getMe until it succeeds, backing off exponentially up to
+ * GET_ME_MAX_DELAY_MS between attempts, so a Telegram hiccup at boot
+ * only delays readiness.
+ */
+async function identifyBot(bot: TelegramBot): Promise<TelegramBot.User> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const me = await bot.getMe();
+      if (me?.id) return me;
+      log('Failed to get bot info: User object or ID is undefined.');
     } catch (error) {
-      typingAction.stop();
-      const errorMessage =
-        (error as Error).message || 'Unknown error during processing';
-      log(
-        `Error processing voice message from ${username} in chat ${chatId}: ${errorMessage}`,
-      );
-      try {
-        await bot.sendMessage(
-          chatId,
-          "Sorry, I couldn't process your voice message. Please try again.", // This should be configurable
-          { reply_to_message_id: messageId },
-        );
-      } catch (replyError) {
-        log(
-          `Failed to send error reply to ${username}: ${
-            (replyError as Error).message
-          }`,
-        );
-      }
+      log(`Failed to get bot info: ${(error as Error).message}`);
     }
+    const delay = Math.min(
+      GET_ME_MAX_DELAY_MS,
+      GET_ME_BASE_DELAY_MS * 2 ** (attempt - 1),
+    );
+    log(`Retrying getMe in ${Math.round(delay / 1000)}s`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+export function initializeTelegramHandlers(bot: TelegramBot): Promise<void> {
+  // Resolves once the bot could identify itself with Telegram, which
+  // also serves as the readiness signal for /readyz.
+  const botInfo = identifyBot(bot).then((me) => {
+    log(`Telegram Handlers Initialized for Bot: ${me.username} (ID: ${me.id})`);
   });
 
-  // Handler for video notes (video circles)
-  bot.on('video_note', async (msg: Message) => {
-    const chatId = msg.chat.id;
-    if (!msg.video_note || !msg.video_note.file_id) {
-      log(
-        `Received message in chat ${chatId} without video_note data or file_id.`,
+  bot.on('my_chat_member', async (ctx) => {
+    const joined =
+      ['left', 'kicked'].includes(ctx.old_chat_member.status) &&
+      ['member', 'administrator'].includes(ctx.new_chat_member.status);
+    if (!joined || ctx.chat.type === 'private') return;
+    log(
+      `Bot added to chat: ${ctx.chat.title || 'Untitled Chat'} (ID: ${
+        ctx.chat.id
+      }) by ${ctx.from.username || ctx.from.id}`,
+    );
+    try {
+      const languageCode = ctx.from.language_code;
+      if (!(await admitNewChat(bot, ctx.chat, ctx.from.id, languageCode))) {
+        return;
+      }
+      await bot.sendMessage(
+        ctx.chat.id,
+        t(resolveLocale(ctx.chat.id, languageCode), 'welcome'),
       );
-      return;
+    } catch (error) {
+      log(`Failed to greet chat ${ctx.chat.id}: ${(error as Error).message}`);
     }
+  });
+
+  // `mode` overrides the chat's mode, e.g. from /retranscribe notes; a
+  // #mode tag in the caption does the same. `requester` is who the work
+  // is rate limited and accounted to: the sender, or whoever ran
+  // /retranscribe.
+  const handleMedia = async (
+    msg: Message,
+    {
+      fresh = false,
+      mode = modeFromCaption(msg.caption),
+      requester = msg.from,
+    }: {
+      fresh?: boolean;
+      mode?: TranscriptionMode | null;
+      requester?: User;
+    } = {},
+  ) => {
+    const media = mediaFromMessage(msg);
+    if (!media) return;
 
-    const videoNoteFileId = msg.video_note.file_id;
+    const chatId = msg.chat.id;
     const messageId = msg.message_id;
-    const userId = msg.from?.id;
+    const userId = requester?.id;
     const username =
-      msg.from?.username || msg.from?.first_name || 'UnknownUser';
-    const duration = msg.video_note.duration;
-    const fileSize = msg.video_note.file_size;
+      requester?.username || requester?.first_name || 'UnknownUser';
+    const locale = localeFor({ chat: msg.chat, from: requester });
 
     log(
-      `Received video note from ${username} (ID: ${userId}) in chat ${chatId}, duration: ${duration}s, size: ${fileSize ? (fileSize / 1024).toFixed(2) + ' KB' : 'unknown'}`,
+      `Received ${media.kind} ${media.fileName || ''} (MIME: ${media.mimeType}, duration: ${media.durationSeconds ?? 'unknown'}s, size: ${media.fileSize ? (media.fileSize / 1024).toFixed(2) + ' KB' : 'unknown'}) from ${username} (ID: ${userId}) in chat ${chatId}`,
     );
 
-    const typingAction = sendContinuousTypingAction(bot, chatId);
-
-    try {
-      typingAction.start();
-
-      // Extract audio from video note
-      const audioBuffer = await retry(() =>
-        extractAudioFromVideoNote(bot, videoNoteFileId),
-      );
+    const limitMessage = checkMediaLimits(media, locale);
+    if (limitMessage) {
+      log(`Refused ${media.kind} in chat ${chatId}: ${limitMessage}`);
+      await bot
+        .sendMessage(chatId, limitMessage, { reply_to_message_id: messageId })
+        .catch((error) =>
+          log(`Failed to send limit reply: ${(error as Error).message}`),
+        );
+      return;
+    }
 
-      log('Transcribing audio from video note...');
-      const { transcribedText, tldr } = await retry(
-        () => transcribeAudio(audioBuffer, 'audio/mp3'), // We convert to MP3 in extractAudioFromVideoNote
-      );
+    // Telegram reports no duration for documents; they are checked again
+    // once downloaded.
+    const quotaMessage = checkQuota(
+      userId,
+      chatId,
+      media.durationSeconds,
+      locale,
+    );
+    if (quotaMessage) {
+      log(`Refused ${media.kind} in chat ${chatId}: quota exceeded`);
+      await bot
+        .sendMessage(chatId, quotaMessage, { reply_to_message_id: messageId })
+        .catch((error) =>
+          log(`Failed to send quota reply: ${(error as Error).message}`),
+        );
+      return;
+    }
 
-      let template: string =
-        tldr?.trim() && tldr.length > 0
-          ? `<b>TLDR (Video Note):</b>\n${tldr}\n<b>Original text:</b>\n${transcribedText}`
-          : `${transcribedText}`;
+    const settings = {
+      ...getChatSettings(chatId),
+      ...(mode && { transcriptionMode: mode }),
+    };
+    const replyDetails = {
+      title: mediaTitle(media, locale),
+      sourceName: media.fileName,
+    };
+    if (
+      !fresh &&
+      (await replyFromCache(bot, msg, media, settings, replyDetails))
+    ) {
+      return;
+    }
 
-      typingAction.stop();
-      await bot.sendMessage(chatId, template, {
-        reply_to_message_id: messageId,
-        parse_mode: 'HTML',
-      });
-      log(
-        `Replied with video note transcription to ${username} in chat ${chatId}`,
-      );
-    } catch (error) {
-      typingAction.stop();
-      const errorMessage =
-        (error as Error).message ||
-        'Unknown error during video note processing';
-      log(
-        `Error processing video note from ${username} in chat ${chatId}: ${errorMessage}`,
-      );
+    await scheduleTranscription(bot, msg, async (progress) => {
+      const typingAction = sendContinuousTypingAction(bot, chatId);
 
       try {
-        let replyMessage =
-          "Sorry, I couldn't process your video note. Please try again or send a voice message instead.";
-
-        // Provide more specific error messages
-        if (
-          errorMessage.includes('does not contain audio') ||
-          errorMessage.includes('too small') ||
-          errorMessage.includes('silent')
-        ) {
-          replyMessage =
-            "This video note appears to be silent or doesn't contain audio. Please record a video note with speech or send a voice message instead.";
-        } else if (errorMessage.includes('FFmpeg')) {
-          replyMessage =
-            'There was an issue processing the video format. Please try sending a voice message instead.';
+        typingAction.start();
+        const audio = await retry(
+          () => downloadAndNormalize(bot, media, progress.report),
+          { operation: 'download' },
+        );
+        const downloadedQuotaMessage = checkQuota(
+          userId,
+          chatId,
+          audio.durationSeconds,
+          locale,
+        );
+        if (downloadedQuotaMessage) {
+          typingAction.stop();
+          log(`Refused ${media.kind} in chat ${chatId}: quota exceeded`);
+          await progress.fail(downloadedQuotaMessage);
+          return;
         }
 
-        await bot.sendMessage(chatId, replyMessage, {
-          reply_to_message_id: messageId,
-        });
-      } catch (replyError) {
-        log(
-          `Failed to send error reply for video note to ${username}: ${
-            (replyError as Error).message
-          }`,
+        log('Transcribing audio...');
+        const result = await transcribeAndAccount(
+          audio,
+          media,
+          settings,
+          {
+            userId,
+            userName: requester?.username || requester?.first_name,
+            chatId,
+            chatTitle: msg.chat.title,
+          },
+          progress.report,
         );
-      }
-    }
-  });
 
-  // Handler for audio files sent as documents
-  bot.on('message', async (msg: Message) => {
-    if (msg.document && msg.chat.id) {
-      const chatId = msg.chat.id;
-      const document = msg.document;
-
-      if (
-        document.mime_type &&
-        supportedAudioMimeTypes.includes(document.mime_type)
-      ) {
+        typingAction.stop();
+        await deliverTranscript(bot, msg, media, result, settings, {
+          ...replyDetails,
+          replaceMessageId: await progress.takeOver(),
+        });
+        log(`Replied to ${username} in chat ${chatId}`);
+      } catch (error) {
+        typingAction.stop();
+        const kind = errorKind(error);
+        errorsTotal.inc({ stage: 'job', class: kind });
         log(
-          `Received supported audio document: ${document.file_name || 'Unknown Filename'} (MIME: ${document.mime_type}) from chat ${chatId}`,
+          `Error processing ${media.kind} from ${username} in chat ${chatId}: ${(error as Error).message}`,
+          { errorKind: kind },
         );
-        const typingIndicator = sendContinuousTypingAction(bot, chatId);
-        typingIndicator.start();
-
         try {
-          const fileId = document.file_id;
-          const audioBuffer = await retry(() =>
-            downloadVoiceToBuffer(bot, fileId),
-          );
+          await progress.fail(t(locale, errorReplies[kind] || 'errorGeneric'));
+        } catch (replyError) {
           log(
-            `Audio document ${document.file_name || fileId} downloaded, size: ${audioBuffer.length} bytes. Transcribing...`,
+            `Failed to send error reply to ${username}: ${
+              (replyError as Error).message
+            }`,
           );
+        }
+      }
+    });
+  };
+  // Every message passes the access check, which also refuses and leaves
+  // unauthorized chats.
+  bot.on('message', async (msg: Message) => {
+    if (await admitMessage(bot, msg)) await handleMedia(msg);
+  });
 
-          // For document messages, msg.from might be undefined if sent by a channel.
-          // We'll use chat.id for user context if msg.from is not available.
-          // const userIdForLog = msg.from ? msg.from.id : `chat_${chatId}`; // aiService doesn't use this yet
-
-          const { transcribedText, tldr } = await transcribeAudio(
-            audioBuffer,
-            document.mime_type,
-          );
-
-          let replyText = `<b>Transcription (Document: ${document.file_name || 'audio file'}):</b>\n${transcribedText}`;
-          if (tldr) {
-            replyText += `\n\n<b>TLDR:</b>\n${tldr}`;
-          }
-
-          await bot.sendMessage(chatId, replyText, {
-            parse_mode: 'HTML',
-            reply_to_message_id: msg.message_id,
-          });
-          log(
-            `Transcription for document ${document.file_name || fileId} sent to chat ${chatId}.`,
-          );
-        } catch (error: any) {
-          log(
-            `Error processing audio document ${document.file_name || document.file_id} from chat ${chatId}: ${error.message}`,
-          );
-          await bot.sendMessage(
-            chatId,
-            "Sorry, I couldn't process this audio document. Please try another file or check if it's a valid audio format.",
-            { reply_to_message_id: msg.message_id },
-          );
-        } finally {
-          typingIndicator.stop();
+  // Reply /retranscribe [mode] to a media message to skip the transcript
+  // cache and transcribe it again, optionally in another mode.
+  bot.onText(
+    /^\/retranscribe(?:@\w+)?(?:\s+(\S+))?\s*$/,
+    async (msg: Message, match) => {
+      if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+      const target = msg.reply_to_message;
+      const arg = match?.[1]?.toLowerCase();
+      const mode = arg && isTranscriptionMode(arg) ? arg : null;
+      if (target && mediaFromMessage(target) && (!arg || mode)) {
+        // Fresh transcriptions cost money: only the sender or an admin
+        const allowed =
+          msg.from &&
+          (target.from?.id === msg.from.id ||
+            (await isChatAdmin(bot, msg.chat, msg.from.id)));
+        if (!allowed) {
+          await bot
+            .sendMessage(msg.chat.id, t(localeFor(msg), 'actionNotAllowed'), {
+              reply_to_message_id: msg.message_id,
+            })
+            .catch((error) =>
+              log(
+                `Failed to reply to /retranscribe: ${(error as Error).message}`,
+              ),
+            );
+          return;
         }
-      } else if (document.mime_type) {
-        // It's a document, but not a supported audio type
-        log(
-          `Received unsupported document type: ${document.mime_type} from chat ${chatId}. File: ${document.file_name || 'Unknown Filename'}`,
-        );
-        // Optionally, inform the user about unsupported file types if it's not an audio type we might expect
-        // For now, we'll only explicitly reject if it *looks* like audio but isn't on our list,
-        // or if they send something completely random as a document.
-        // To avoid spamming, let's only reply if it's explicitly an 'audio/*' mime type that's not supported.
-        if (document.mime_type.startsWith('audio/')) {
-          await bot.sendMessage(
-            chatId,
-            `Sorry, the audio format ${document.mime_type} is not supported. Please try one of: MP3, M4A, OGG, WAV, AAC.`,
-            { reply_to_message_id: msg.message_id },
+        await handleMedia(target, {
+          fresh: true,
+          mode: mode || modeFromCaption(target.caption),
+          requester: msg.from,
+        });
+      } else {
+        await bot
+          .sendMessage(msg.chat.id, t(localeFor(msg), 'retranscribeUsage'), {
+            reply_to_message_id: msg.message_id,
+          })
+          .catch((error) =>
+            log(
+              `Failed to reply to /retranscribe: ${(error as Error).message}`,
+            ),
           );
-        }
       }
-      // If it's a document but not audio, we simply ignore it silently
-      // unless it's an audio/* mime type we don't support (handled above).
-    }
-    // This handler also processes other message types like 'text', etc.
-    // If you want to *only* process documents here, you would use bot.on('document', ...)
-    // But since 'voice' is handled separately, and we might want to add general text command processing
-    // to this 'message' handler later, keeping it as 'message' is fine.
-    // We just need to ensure we don't interfere with the specific 'voice' handler.
-    // The 'voice' handler will trigger first for voice messages. For other messages, this one will trigger.
+    },
+  );
+
+  registerSettingsHandlers(bot);
+  registerSubtitleHandlers(bot);
+  registerUsageHandlers(bot);
+  registerDigestHandlers(bot);
+  registerArchiveHandlers(bot);
+  registerGlossaryHandlers(bot);
+  registerAccessHandlers(bot);
+  registerTranscriptActionHandlers(bot, {
+    admitRetranscription,
+    retranscribe: (record, mode, requester) =>
+      retranscribeStoredMedia(bot, record, mode, requester),
   });
 
   bot.on('polling_error', (error: TelegramError) => {
@@ -326,4 +668,5 @@ export function initializeTelegramHandlers(bot: TelegramBot) {
   });
 
   log('Telegram event handlers registered.');
+  return botInfo;
 }
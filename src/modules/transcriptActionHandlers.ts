@@ -0,0 +1,579 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { CallbackQuery, Message, User } from 'node-telegram-bot-api';
+import { summarizeTranscript, translateTranscript } from './aiService.js';
+import { getChatSettings, type TranscriptionMode } from './chatSettings.js';
+import {
+  editTranscriptReply,
+  sendTranscriptReply,
+  type TranscriptReply,
+} from './replyOutput.js';
+import { mediaTitle } from './mediaPipeline.js';
+import { accessDecision } from './accessControl.js';
+import { QuotaExceededError } from './errors.js';
+import { localeFor, resolveLocale, t } from './i18n.js';
+import { forgetHistoryEntry, updateHistoryText } from './chatHistory.js';
+import {
+  parseSpeakerRenames,
+  renameSpeakers,
+  speakerLabels,
+} from './speakers.js';
+import { subtitleButtons } from './subtitleHandlers.js';
+import {
+  findTranscript,
+  forgetTranscript,
+  updateTranscript,
+  type StoredTranscript,
+} from './transcriptStore.js';
+import {
+  summaryDetails,
+  type TranscriptionResult,
+} from './transcriptionProviders.js';
+import { isChatAdmin, log } from './utils.js';
+
+const CALLBACK_PREFIX = 'act:';
+
+type Action =
+  | 'mode'
+  | 'translate'
+  | 'less'
+  | 'more'
+  | 'original'
+  | 'reset'
+  | 'delete';
+
+export interface TranscriptActionDependencies {
+  /**
+   * Throws a QuotaExceededError, with the reply to show, when `requester`
+   * may not re-transcribe `record` now.
+   */
+  admitRetranscription(record: StoredTranscript, requester: User): void;
+  /**
+   * Downloads the stored media again and transcribes it in another mode,
+   * accounted to `requester`. Provided by telegramHandlers so it runs
+   * through the job queue.
+   */
+  retranscribe(
+    record: StoredTranscript,
+    mode: TranscriptionMode,
+    requester: User,
+  ): Promise<TranscriptionResult>;
+}
+
+const otherMode = (mode: TranscriptionMode): TranscriptionMode =>
+  mode === 'clean' ? 'verbatim' : 'clean';
+
+/** Records with an action in progress, to ignore repeated taps. */
+const busy = new Set<string>();
+
+/**
+ * Inline keyboard shown under every transcript reply, labelled in the
+ * reply's locale.
+ */
+export function transcriptActionKeyboard(
+  record: Pick<StoredTranscript, 'mode' | 'result' | 'view' | 'locale'>,
+): TelegramBot.InlineKeyboardMarkup {
+  const { locale } = record;
+  const button = (text: string, action: Action) => ({
+    text,
+    callback_data: `${CALLBACK_PREFIX}${action}`,
+  });
+  const rows: TelegramBot.InlineKeyboardButton[][] = [
+    [
+      button(
+        t(locale, 'buttonRetranscribe', { mode: otherMode(record.mode) }),
+        'mode',
+      ),
+      button(t(locale, 'buttonTranslate'), 'translate'),
+    ],
+    [
+      button(t(locale, 'buttonSummaryLess'), 'less'),
+      button(t(locale, 'buttonSummaryMore'), 'more'),
+    ],
+    [
+      record.view.kind === 'transcript'
+        ? button(t(locale, 'buttonOriginal'), 'original')
+        : button(t(locale, 'buttonBack'), 'reset'),
+      button(t(locale, 'buttonDelete'), 'delete'),
+    ],
+  ];
+  if (record.result.segments?.length) rows.push(subtitleButtons(locale));
+  return { inline_keyboard: rows };
+}
+
+/**
+ * What the reply shows for the record's current view.
+ */
+function renderView(record: StoredTranscript): TranscriptReply {
+  const { view, result, media, locale } = record;
+  const base = {
+    title: mediaTitle(media, locale),
+    locale,
+    sourceName: media.fileName,
+    transcribedText: result.transcribedText,
+    language: result.language,
+    replyMarkup: transcriptActionKeyboard(record),
+  };
+  switch (view.kind) {
+    case 'original':
+      return { ...base, tldr: null };
+    case 'summary':
+      return {
+        ...base,
+        tldr: record.summaries?.[view.detail] ?? result.tldr,
+      };
+    case 'translation':
+      return {
+        ...base,
+        title: t(locale, 'titleTranslation', { language: view.language }),
+        transcribedText:
+          record.translations?.[view.language] ?? result.transcribedText,
+        tldr: null,
+        language: undefined,
+      };
+    default:
+      return {
+        ...base,
+        tldr: result.tldr,
+        notes: result.notes,
+        actionItems: result.actionItems,
+        decisions: result.decisions,
+        translation: result.translation,
+      };
+  }
+}
+
+/**
+ * Shows the record's current view, editing the reply in place when
+ * possible. Otherwise (multi-message replies, or new content for a reply
+ * sent as a file) the reply is sent again and the old one deleted.
+ */
+async function showView(
+  bot: TelegramBot,
+  record: StoredTranscript,
+  contentChanged: boolean,
+) {
+  const reply = renderView(record);
+  const [messageId] = record.replyMessageIds;
+  const editable =
+    record.replyMessageIds.length === 1 &&
+    !(record.sentAsDocument && contentChanged);
+
+  if (
+    editable &&
+    (await editTranscriptReply(
+      bot,
+      record.chatId,
+      messageId,
+      reply,
+      record.sentAsDocument,
+    ))
+  ) {
+    return;
+  }
+
+  const sent = await sendTranscriptReply(
+    bot,
+    record.chatId,
+    record.sourceMessageId,
+    reply,
+  );
+  await deleteMessages(bot, record.chatId, record.replyMessageIds);
+  updateTranscript(record, {
+    replyMessageIds: sent.map((message) => message.message_id),
+    sentAsDocument: sent.some((message) => Boolean(message.document)),
+  });
+}
+
+async function deleteMessages(
+  bot: TelegramBot,
+  chatId: number,
+  messageIds: number[],
+) {
+  for (const messageId of messageIds) {
+    await bot.deleteMessage(chatId, messageId).catch((error) => {
+      log(
+        `Failed to delete message ${messageId} in chat ${chatId}: ${(error as Error).message}`,
+      );
+    });
+  }
+}
+
+/**
+ * The sender of the transcribed message and chat admins may use the
+ * buttons; everyone may in private chats.
+ */
+async function canUseActions(
+  bot: TelegramBot,
+  message: Message,
+  record: StoredTranscript,
+  userId: number,
+) {
+  return record.senderId === userId || isChatAdmin(bot, message.chat, userId);
+}
+
+async function changeSummary(
+  bot: TelegramBot,
+  record: StoredTranscript,
+  step: 1 | -1,
+  locale: string,
+): Promise<string | null> {
+  const current =
+    record.view.kind === 'summary' ? record.view.detail : 'standard';
+  const detail = summaryDetails[summaryDetails.indexOf(current) + step];
+  if (!detail) {
+    return t(locale, step > 0 ? 'summaryMostDetailed' : 'summaryShortest');
+  }
+
+  let summary = record.summaries?.[detail];
+  if (!summary && detail === 'standard') summary = record.result.tldr ?? '';
+  if (!summary) {
+    summary =
+      (await summarizeTranscript(record.result.transcribedText, detail, {
+        chatId: record.chatId,
+        settings: getChatSettings(record.chatId),
+      })) ?? '';
+  }
+  if (!summary) return t(locale, 'summaryFailed');
+
+  const updated = updateTranscript(record, {
+    view: { kind: 'summary', detail },
+    summaries: { ...record.summaries, [detail]: summary },
+  });
+  await showView(bot, updated, false);
+  return null;
+}
+
+async function translate(
+  bot: TelegramBot,
+  record: StoredTranscript,
+  language: string,
+) {
+  const { result } = record;
+  const translation =
+    record.translations?.[language] ??
+    (result.translation?.language === language
+      ? result.translation.text
+      : undefined) ??
+    (await translateTranscript(result.transcribedText, language, {
+      chatId: record.chatId,
+      settings: getChatSettings(record.chatId),
+    }));
+  const updated = updateTranscript(record, {
+    view: { kind: 'translation', language },
+    translations: { ...record.translations, [language]: translation },
+  });
+  await showView(bot, updated, true);
+}
+
+async function retranscribe(
+  bot: TelegramBot,
+  record: StoredTranscript,
+  requester: User,
+  dependencies: TranscriptActionDependencies,
+) {
+  const mode = otherMode(record.mode);
+  const result = await dependencies.retranscribe(record, mode, requester);
+  const updated = updateTranscript(record, {
+    mode,
+    result,
+    view: { kind: 'transcript' },
+    summaries: undefined,
+    translations: undefined,
+  });
+  updateHistoryText(
+    record.chatId,
+    record.sourceMessageId,
+    result.transcribedText,
+  );
+  await showView(bot, updated, true);
+}
+
+async function runAction(
+  bot: TelegramBot,
+  query: CallbackQuery,
+  message: Message,
+  record: StoredTranscript,
+  action: Action,
+  dependencies: TranscriptActionDependencies,
+) {
+  const locale = resolveLocale(record.chatId, query.from.language_code);
+  switch (action) {
+    case 'original':
+    case 'reset':
+      await showView(
+        bot,
+        updateTranscript(record, {
+          view: { kind: action === 'original' ? 'original' : 'transcript' },
+        }),
+        record.view.kind === 'translation',
+      );
+      await bot.answerCallbackQuery(query.id);
+      return;
+    case 'delete':
+      await deleteMessages(bot, record.chatId, record.replyMessageIds);
+      forgetTranscript(record);
+      forgetHistoryEntry(record.chatId, record.sourceMessageId);
+      await bot.answerCallbackQuery(query.id);
+      return;
+    case 'less':
+    case 'more': {
+      await bot.answerCallbackQuery(query.id, {
+        text: t(locale, 'actionSummarizing'),
+      });
+      const problem = await changeSummary(
+        bot,
+        record,
+        action === 'more' ? 1 : -1,
+        locale,
+      );
+      if (problem) {
+        await bot.sendMessage(message.chat.id, problem, {
+          reply_to_message_id: message.message_id,
+        });
+      }
+      return;
+    }
+    case 'translate': {
+      const language = (query.from.language_code || 'en').split('-')[0];
+      await bot.answerCallbackQuery(query.id, {
+        text: t(locale, 'actionTranslating', { language }),
+      });
+      await translate(bot, record, language);
+      return;
+    }
+    case 'mode':
+      // Refused before the callback is answered, so that the refusal
+      // becomes the answer
+      dependencies.admitRetranscription(record, query.from);
+      await bot.answerCallbackQuery(query.id, {
+        text: t(locale, 'actionRetranscribing', {
+          mode: otherMode(record.mode),
+        }),
+      });
+      await retranscribe(bot, record, query.from, dependencies);
+      return;
+  }
+}
+
+async function handleActionCallback(
+  bot: TelegramBot,
+  query: CallbackQuery,
+  dependencies: TranscriptActionDependencies,
+) {
+  const message = query.message;
+  if (!message || !query.data) return;
+  if (accessDecision(message.chat, query.from.id) !== 'allow') {
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+  const action = query.data.slice(CALLBACK_PREFIX.length) as Action;
+  const record = findTranscript(message.chat.id, message.message_id);
+  const locale = resolveLocale(message.chat.id, query.from.language_code);
+
+  if (!record) {
+    await bot.answerCallbackQuery(query.id, {
+      text: t(locale, 'actionUnavailable'),
+      show_alert: true,
+    });
+    return;
+  }
+  if (!(await canUseActions(bot, message, record, query.from.id))) {
+    await bot.answerCallbackQuery(query.id, {
+      text: t(locale, 'actionNotAllowed'),
+      show_alert: true,
+    });
+    return;
+  }
+
+  const key = `${record.chatId}:${record.sourceMessageId}`;
+  if (busy.has(key)) {
+    await bot.answerCallbackQuery(query.id, {
+      text: t(locale, 'actionBusy'),
+    });
+    return;
+  }
+  busy.add(key);
+  try {
+    await runAction(bot, query, message, record, action, dependencies);
+  } catch (error) {
+    const refused = error instanceof QuotaExceededError;
+    log(
+      refused
+        ? `Transcript action "${action}" refused in chat ${record.chatId}: over quota`
+        : `Transcript action "${action}" failed in chat ${record.chatId}: ${(error as Error).message}`,
+    );
+    const text = refused ? error.message : t(locale, 'actionFailed');
+    try {
+      // A query answered already (e.g. a refusal after the download)
+      // gets the reply as a message instead
+      const answered = await bot
+        .answerCallbackQuery(
+          query.id,
+          refused ? { text, show_alert: true } : undefined,
+        )
+        .then(
+          () => true,
+          () => false,
+        );
+      if (refused && answered) return;
+      await bot.sendMessage(message.chat.id, text, {
+        reply_to_message_id: message.message_id,
+      });
+    } catch (replyError) {
+      log(
+        `Failed to report transcript action error: ${(replyError as Error).message}`,
+      );
+    }
+  } finally {
+    busy.delete(key);
+  }
+}
+
+/**
+ * Renames speakers of a diarized transcript from a reply to it such as
+ * "Speaker 1 = Anna" (one rename per line).
+ */
+async function handleSpeakerRename(bot: TelegramBot, msg: Message) {
+  const target = msg.reply_to_message;
+  const renames = msg.text && target ? parseSpeakerRenames(msg.text) : null;
+  if (!target || !renames || !msg.from) return;
+  const record = findTranscript(msg.chat.id, target.message_id);
+  const labels = record ? speakerLabels(record.result) : [];
+  if (!record || !labels.length) return;
+
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(msg.chat.id, text, { reply_to_message_id: msg.message_id });
+  const known = new Set(labels.map((label) => label.toLowerCase()));
+  const unknown = [...renames.keys()].filter(
+    (label) => !known.has(label.toLowerCase()),
+  );
+  // Replies that rename nobody are ordinary conversation
+  if (unknown.length === renames.size) return;
+  if (unknown.length) {
+    await reply(
+      t(locale, 'speakerUnknown', {
+        unknown: unknown.join(', '),
+        speakers: labels.join(', '),
+      }),
+    );
+    return;
+  }
+  if (!(await canUseActions(bot, msg, record, msg.from.id))) {
+    await reply(t(locale, 'speakerRenameNotAllowed'));
+    return;
+  }
+
+  const key = `${record.chatId}:${record.sourceMessageId}`;
+  if (busy.has(key)) return;
+  busy.add(key);
+  try {
+    // Translations still use the old names
+    const result = {
+      ...renameSpeakers(record.result, renames),
+      translation: undefined,
+    };
+    const updated = updateTranscript(record, {
+      result,
+      view:
+        record.view.kind === 'translation'
+          ? { kind: 'transcript' }
+          : record.view,
+      translations: undefined,
+    });
+    updateHistoryText(
+      record.chatId,
+      record.sourceMessageId,
+      result.transcribedText,
+    );
+    log(`Renamed speakers of a transcript in chat ${record.chatId}`);
+    await showView(bot, updated, true);
+  } finally {
+    busy.delete(key);
+  }
+}
+
+/**
+ * Translates a stored transcript without touching the audio: /translate
+ * <language> as a reply to the transcribed message or to the transcript.
+ * Without a language, translates into the user's Telegram language.
+ */
+async function handleTranslateCommand(
+  bot: TelegramBot,
+  msg: Message,
+  args: string,
+) {
+  const locale = localeFor(msg);
+  const reply = (text: string) =>
+    bot.sendMessage(msg.chat.id, text, {
+      parse_mode: 'HTML',
+      reply_to_message_id: msg.message_id,
+    });
+  const language = (args.trim() || msg.from?.language_code || 'en')
+    .toLowerCase()
+    .split(/[-_]/)[0];
+  const target = msg.reply_to_message;
+  const record = target && findTranscript(msg.chat.id, target.message_id);
+  if (!record || !/^[a-z]{2,3}$/.test(language)) {
+    await reply(t(locale, 'translateUsage'));
+    return;
+  }
+  if (!msg.from || !(await canUseActions(bot, msg, record, msg.from.id))) {
+    await reply(t(locale, 'actionNotAllowed'));
+    return;
+  }
+
+  const key = `${record.chatId}:${record.sourceMessageId}`;
+  if (busy.has(key)) {
+    await reply(t(locale, 'actionBusy'));
+    return;
+  }
+  busy.add(key);
+  try {
+    await translate(bot, record, language);
+  } catch (error) {
+    log(
+      `Failed to translate a transcript in chat ${record.chatId}: ${(error as Error).message}`,
+    );
+    await reply(t(locale, 'actionFailed'));
+  } finally {
+    busy.delete(key);
+  }
+}
+
+export function registerTranscriptActionHandlers(
+  bot: TelegramBot,
+  dependencies: TranscriptActionDependencies,
+) {
+  bot.on('callback_query', async (query: CallbackQuery) => {
+    if (!query.data?.startsWith(CALLBACK_PREFIX)) return;
+    try {
+      await handleActionCallback(bot, query, dependencies);
+    } catch (error) {
+      log(`Failed to handle transcript button: ${(error as Error).message}`);
+    }
+  });
+
+  bot.onText(/^\/translate(?:@\w+)?(?:\s+(.*))?$/, async (msg, match) => {
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleTranslateCommand(bot, msg, match?.[1] || '');
+    } catch (error) {
+      log(
+        `Failed to handle /translate in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+
+  bot.on('message', async (msg: Message) => {
+    if (!msg.reply_to_message || !msg.text || msg.text.startsWith('/')) return;
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleSpeakerRename(bot, msg);
+    } catch (error) {
+      log(
+        `Failed to rename speakers in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+}
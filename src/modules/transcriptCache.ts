@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { retentionCutoff, type ChatSettings } from './chatSettings.js';
+import {
+  transcriptCacheMaxEntries,
+  transcriptCacheTtlHours,
+} from './config.js';
+import { isGlossaryEmpty, type Glossary } from './glossary.js';
+import { createJsonStore } from './jsonStore.js';
+import type { TranscriptionResult } from './transcriptionProviders.js';
+
+interface CacheEntry {
+  result: TranscriptionResult;
+  createdAt: number;
+  /** Chats the transcript was made or served in, for /purge and retention. */
+  chatIds?: number[];
+}
+
+const store = createJsonStore<Record<string, CacheEntry>>(
+  'transcript-cache.json',
+  () => ({}),
+);
+
+/**
+ * Cache key: Telegram's file_unique_id (identical for every forward of
+ * the same file) plus a hash of the settings and glossary that change
+ * the output.
+ */
+function cacheKey(
+  fileUniqueId: string,
+  settings: ChatSettings,
+  glossary?: Glossary,
+) {
+  const relevant = {
+    tldrEnabled: settings.tldrEnabled,
+    tldrThreshold: settings.tldrThreshold,
+    transcriptionMode: settings.transcriptionMode,
+    languageHint: settings.languageHint,
+    model: settings.model,
+    provider: settings.provider,
+    diarization: settings.diarization,
+    translateTo: settings.translateTo,
+    ...(glossary && !isGlossaryEmpty(glossary) && { glossary }),
+  };
+  const hash = createHash('sha1')
+    .update(JSON.stringify(relevant))
+    .digest('hex')
+    .slice(0, 12);
+  return `${fileUniqueId}:${hash}`;
+}
+
+/**
+ * Whether the entry is past the cache TTL or the retention setting of
+ * any chat it was used in.
+ */
+function isExpired(entry: CacheEntry, now = Date.now()) {
+  if (now - entry.createdAt > transcriptCacheTtlHours * 3600 * 1000) {
+    return true;
+  }
+  return (entry.chatIds || []).some((chatId) => {
+    const cutoff = retentionCutoff(chatId, now);
+    return cutoff !== null && entry.createdAt < cutoff;
+  });
+}
+
+export function getCachedTranscript(
+  fileUniqueId: string,
+  chatId: number,
+  settings: ChatSettings,
+  glossary?: Glossary,
+): TranscriptionResult | null {
+  const key = cacheKey(fileUniqueId, settings, glossary);
+  const entry = store.data[key];
+  if (!entry) return null;
+  if (isExpired(entry)) {
+    delete store.data[key];
+    store.save();
+    return null;
+  }
+  if (!entry.chatIds?.includes(chatId)) {
+    entry.chatIds = [...(entry.chatIds || []), chatId];
+    store.save();
+  }
+  return entry.result;
+}
+
+export function setCachedTranscript(
+  fileUniqueId: string,
+  chatId: number,
+  settings: ChatSettings,
+  result: TranscriptionResult,
+  glossary?: Glossary,
+) {
+  const now = Date.now();
+  const key = cacheKey(fileUniqueId, settings, glossary);
+  const chatIds = store.data[key]?.chatIds || [];
+  store.data[key] = {
+    result,
+    createdAt: now,
+    chatIds: chatIds.includes(chatId) ? chatIds : [...chatIds, chatId],
+  };
+
+  // Drop expired entries, then the oldest ones above the size limit
+  const entries = Object.entries(store.data);
+  for (const [key, entry] of entries) {
+    if (isExpired(entry, now)) delete store.data[key];
+  }
+  const remaining = Object.entries(store.data);
+  if (remaining.length > transcriptCacheMaxEntries) {
+    remaining
+      .sort(([, a], [, b]) => a.createdAt - b.createdAt)
+      .slice(0, remaining.length - transcriptCacheMaxEntries)
+      .forEach(([key]) => delete store.data[key]);
+  }
+  store.save();
+}
+
+/**
+ * Forgets every cached transcript the chat made or was served, e.g. for
+ * /purge. Other chats that used the same file transcribe it again.
+ */
+export function forgetChatCache(chatId: number) {
+  let count = 0;
+  for (const [key, entry] of Object.entries(store.data)) {
+    if (entry.chatIds?.includes(chatId)) {
+      delete store.data[key];
+      count++;
+    }
+  }
+  store.save();
+  return count;
+}
@@ -0,0 +1,150 @@
+import {
+  historyVersion,
+  recentHistory,
+  type HistoryEntry,
+} from './chatHistory.js';
+import { escapeHtml } from './formatter.js';
+
+interface ChatIndex {
+  version: number;
+  entries: Map<number, HistoryEntry>;
+  /** token -> message ID -> occurrences */
+  postings: Map<string, Map<number, number>>;
+}
+
+export interface SearchResult {
+  entry: HistoryEntry;
+  /** HTML excerpt around the first match, with the matches in bold. */
+  snippet: string;
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+/** Indexes are built on the first search in a chat and kept in memory. */
+const indexes = new Map<number, ChatIndex>();
+
+function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || []
+  );
+}
+
+function buildIndex(chatId: number): ChatIndex {
+  const index: ChatIndex = {
+    version: historyVersion(chatId),
+    entries: new Map(),
+    postings: new Map(),
+  };
+  for (const entry of recentHistory(chatId)) {
+    index.entries.set(entry.messageId, entry);
+    for (const token of tokenize(entry.text)) {
+      let posting = index.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        index.postings.set(token, posting);
+      }
+      posting.set(entry.messageId, (posting.get(entry.messageId) || 0) + 1);
+    }
+  }
+  return index;
+}
+
+function chatIndex(chatId: number) {
+  // Reading the history first applies retention, which may bump the version
+  recentHistory(chatId, { limit: 1 });
+  let index = indexes.get(chatId);
+  if (!index || index.version !== historyVersion(chatId)) {
+    index = buildIndex(chatId);
+    indexes.set(chatId, index);
+  }
+  return index;
+}
+
+/**
+ * Message ID -> score for one query term: words starting with the term
+ * match, whole-word matches count double.
+ */
+function matchTerm(index: ChatIndex, term: string) {
+  const scores = new Map<number, number>();
+  for (const [token, posting] of index.postings) {
+    if (!token.startsWith(term)) continue;
+    const weight = token === term ? 2 : 1;
+    for (const [messageId, count] of posting) {
+      scores.set(messageId, (scores.get(messageId) || 0) + weight * count);
+    }
+  }
+  return scores;
+}
+
+function snippet(text: string, terms: string[]) {
+  const escapeRegExp = (value: string) =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`,
+    'giu',
+  );
+  const flat = text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  const first = flat.search(pattern);
+
+  let start = Math.max(0, first - SNIPPET_BEFORE);
+  let end = Math.min(flat.length, Math.max(first, 0) + SNIPPET_AFTER);
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start;
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+  const excerpt = flat.slice(start, end);
+
+  let html = '';
+  let last = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    html += `${escapeHtml(excerpt.slice(last, match.index))}<b>${escapeHtml(match[0])}</b>`;
+    last = match.index + match[0].length;
+  }
+  html += escapeHtml(excerpt.slice(last));
+  return `${start > 0 ? '…' : ''}${html}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Finds the chat's transcripts containing every word of the query (as a
+ * word or word prefix), best matches first, then newest first.
+ */
+export function searchTranscripts(
+  chatId: number,
+  query: string,
+  limit = 10,
+): { total: number; results: SearchResult[] } {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) return { total: 0, results: [] };
+
+  const index = chatIndex(chatId);
+  let scores: Map<number, number> | null = null;
+  for (const term of terms) {
+    const termScores = matchTerm(index, term);
+    const merged = new Map<number, number>();
+    for (const [messageId, score] of termScores) {
+      if (scores && !scores.has(messageId)) continue;
+      merged.set(messageId, (scores?.get(messageId) || 0) + score);
+    }
+    scores = merged;
+    if (!scores.size) break;
+  }
+
+  const ranked = [...(scores || [])]
+    .map(([messageId, score]) => ({
+      entry: index.entries.get(messageId)!,
+      score,
+    }))
+    .sort((a, b) => b.score - a.score || b.entry.sentAt - a.entry.sentAt);
+  return {
+    total: ranked.length,
+    results: ranked.slice(0, limit).map(({ entry }) => ({
+      entry,
+      snippet: snippet(entry.text, terms),
+    })),
+  };
+}
@@ -0,0 +1,186 @@
+import { transcriptStoreMaxEntries } from './config.js';
+import { createJsonStore } from './jsonStore.js';
+import { retentionCutoff, type TranscriptionMode } from './chatSettings.js';
+import type {
+  SummaryDetail,
+  TranscriptionResult,
+} from './transcriptionProviders.js';
+
+export type MediaKind = 'voice' | 'audio' | 'video_note' | 'video' | 'document';
+
+/** The Telegram file a transcript was made from. */
+export interface MediaFile {
+  kind: MediaKind;
+  fileId: string;
+  fileUniqueId: string;
+  /** MIME type of the downloaded file. */
+  mimeType: string;
+  durationSeconds?: number;
+  fileName?: string;
+}
+
+/** How a transcript reply is currently displayed. */
+export type ReplyView =
+  | { kind: 'transcript' }
+  | { kind: 'original' }
+  | { kind: 'summary'; detail: SummaryDetail }
+  | { kind: 'translation'; language: string };
+
+/** A transcript, the media it came from and the reply showing it. */
+export interface StoredTranscript {
+  chatId: number;
+  sourceMessageId: number;
+  senderId?: number;
+  media: MediaFile;
+  mode: TranscriptionMode;
+  result: TranscriptionResult;
+  replyMessageIds: number[];
+  /** True when the transcript was attached as a file. */
+  sentAsDocument: boolean;
+  view: ReplyView;
+  /** Alternative summaries and translations, generated on demand. */
+  summaries?: Partial<Record<SummaryDetail, string>>;
+  translations?: Record<string, string>;
+  /** Locale of the reply's labels and buttons. */
+  locale?: string;
+  createdAt: number;
+}
+
+interface StoreData {
+  records: Record<string, StoredTranscript>;
+  /** "<chatId>:<messageId>" of sources and replies -> record key */
+  messages: Record<string, string>;
+}
+
+// Records past their chat's retention are dropped at most this often;
+// lookups drop an expired record right away.
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const store = createJsonStore<StoreData>('transcripts.json', () => ({
+  records: {},
+  messages: {},
+}));
+
+let lastSweepAt = 0;
+
+const messageKey = (chatId: number | string, messageId: number) =>
+  `${chatId}:${messageId}`;
+
+/** Deletes records and the message links pointing at them. */
+function dropRecords(keys: Set<string>) {
+  for (const key of keys) delete store.data.records[key];
+  for (const [message, key] of Object.entries(store.data.messages)) {
+    if (keys.has(key)) delete store.data.messages[message];
+  }
+}
+
+function isExpired(record: StoredTranscript) {
+  const cutoff = retentionCutoff(record.chatId);
+  return cutoff !== null && record.createdAt < cutoff;
+}
+
+function evictOldest() {
+  const records = Object.entries(store.data.records);
+  if (records.length <= transcriptStoreMaxEntries) return;
+
+  dropRecords(
+    new Set(
+      records
+        .sort(([, a], [, b]) => a.createdAt - b.createdAt)
+        .slice(0, records.length - transcriptStoreMaxEntries)
+        .map(([key]) => key),
+    ),
+  );
+}
+
+/** Drops the records older than their chat's retention setting. */
+function sweepExpired() {
+  if (Date.now() - lastSweepAt < RETENTION_SWEEP_INTERVAL_MS) return;
+  lastSweepAt = Date.now();
+  dropRecords(
+    new Set(
+      Object.entries(store.data.records)
+        .filter(([, record]) => isExpired(record))
+        .map(([key]) => key),
+    ),
+  );
+}
+
+/**
+ * Remembers a transcript under its source message and every reply
+ * message, so commands and buttons on either can find it again.
+ */
+export function rememberTranscript(
+  record: Omit<StoredTranscript, 'createdAt'>,
+) {
+  const key = messageKey(record.chatId, record.sourceMessageId);
+  store.data.records[key] = { ...record, createdAt: Date.now() };
+  for (const messageId of [record.sourceMessageId, ...record.replyMessageIds]) {
+    store.data.messages[messageKey(record.chatId, messageId)] = key;
+  }
+  evictOldest();
+  sweepExpired();
+  store.save();
+}
+
+/**
+ * Applies changes to a remembered transcript (e.g. a new view or a
+ * generated translation) and persists them.
+ */
+export function updateTranscript(
+  record: StoredTranscript,
+  patch: Partial<Omit<StoredTranscript, 'chatId' | 'sourceMessageId'>>,
+): StoredTranscript {
+  const key = messageKey(record.chatId, record.sourceMessageId);
+  const updated = { ...record, ...patch };
+  store.data.records[key] = updated;
+  if (patch.replyMessageIds) {
+    // The reply was sent again: point the new messages at the record
+    for (const messageId of record.replyMessageIds) {
+      delete store.data.messages[messageKey(record.chatId, messageId)];
+    }
+    for (const messageId of patch.replyMessageIds) {
+      store.data.messages[messageKey(record.chatId, messageId)] = key;
+    }
+  }
+  store.save();
+  return updated;
+}
+
+/**
+ * Forgets a transcript, e.g. after its reply was deleted.
+ */
+export function forgetTranscript(record: StoredTranscript) {
+  dropRecords(new Set([messageKey(record.chatId, record.sourceMessageId)]));
+  store.save();
+}
+
+/**
+ * Forgets every transcript of a chat, e.g. for /purge. Returns how many
+ * there were.
+ */
+export function forgetChatTranscripts(chatId: number) {
+  const prefix = `${chatId}:`;
+  const keys = Object.keys(store.data.records).filter((key) =>
+    key.startsWith(prefix),
+  );
+  for (const key of keys) delete store.data.records[key];
+  for (const message of Object.keys(store.data.messages)) {
+    if (message.startsWith(prefix)) delete store.data.messages[message];
+  }
+  store.save();
+  return keys.length;
+}
+
+export function findTranscript(
+  chatId: number | string,
+  messageId: number,
+): StoredTranscript | null {
+  const key = store.data.messages[messageKey(chatId, messageId)];
+  const record = key && store.data.records[key];
+  if (record && isExpired(record)) {
+    forgetTranscript(record);
+    return null;
+  }
+  return record || null;
+}
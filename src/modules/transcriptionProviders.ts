@@ -0,0 +1,144 @@
+import type { TranscriptionMode } from './chatSettings.js';
+import { geminiProvider } from './geminiProvider.js';
+import { openAiProvider } from './openAiProvider.js';
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the recording. */
+  start: number;
+  end: number;
+  text: string;
+  /** Who is speaking, in diarized transcripts: "Speaker 1" or a given name. */
+  speaker?: string;
+}
+
+/** A task from a recording transcribed in "actions" mode. */
+export interface ActionItem {
+  task: string;
+  /** Who should do it, as named in the recording. */
+  owner?: string;
+  /** When it is due, as said, e.g. "Friday". */
+  due?: string;
+}
+
+export interface TranscriptionResult {
+  transcribedText: string;
+  tldr: string | null;
+  /** Timestamped pieces of the transcript, when the provider reports them. */
+  segments?: TranscriptSegment[];
+  /** Bullet notes, in "notes" mode. */
+  notes?: string[];
+  /** Tasks and decisions, in "actions" mode. */
+  actionItems?: ActionItem[];
+  decisions?: string[];
+  /** ISO 639-1 code of the language spoken, when the provider reports it. */
+  language?: string;
+  /** The transcript in the chat's auto-translate language, if it differs. */
+  translation?: { language: string; text: string };
+}
+
+/** Summary lengths, from shortest to longest. */
+export const summaryDetails = [
+  'brief',
+  'standard',
+  'detailed',
+  'outline',
+] as const;
+export type SummaryDetail = (typeof summaryDetails)[number];
+
+/** One transcribed message given to the model for a chat digest. */
+export interface DigestMessage {
+  speaker: string;
+  sentAt: Date;
+  text: string;
+}
+
+/** A digest of many messages, grouped by topic. */
+export interface ChatDigest {
+  topics: {
+    title: string;
+    /** What was said about the topic, each point credited to its speakers. */
+    points: { speakers: string[]; text: string }[];
+  }[];
+}
+
+export interface ProviderTranscribeOptions {
+  /**
+   * Set when the audio is one chunk of a longer recording: the text may
+   * start or end mid-sentence and no TLDR should be produced for it.
+   */
+  partial?: boolean;
+  mode?: TranscriptionMode;
+  tldrEnabled?: boolean;
+  /** Minimum transcript length (characters) that gets a TLDR. */
+  tldrThreshold?: number;
+  /** ISO 639-1 code of the language most likely spoken. */
+  languageHint?: string | null;
+  /** Label the segments with who is speaking. */
+  diarize?: boolean;
+  /**
+   * For a diarized chunk after the first: the speaker labels used so far
+   * and the previous chunk's last labelled lines, which overlap the start
+   * of this chunk, so each voice keeps its label.
+   */
+  speakerContext?: { speakers: string[]; previousLines: string[] };
+  /** Model override; providers fall back to their configured default. */
+  model?: string | null;
+  /** Length of the audio and how much of it is speech, as prompt hints. */
+  durationSeconds?: number;
+  speechSeconds?: number;
+  /** Names and terms from the chat's glossary, spelled as preferred. */
+  vocabulary?: string[];
+}
+
+export interface TranscriptionProvider {
+  /** Identifier used in config (TRANSCRIPTION_PROVIDER and friends). */
+  readonly name: string;
+  /**
+   * Transcription modes the provider can produce; all of them when
+   * omitted. Providers are skipped for the other modes.
+   */
+  readonly modes?: readonly TranscriptionMode[];
+  transcribe(
+    audioBuffer: Buffer,
+    mimeType: string,
+    options?: ProviderTranscribeOptions,
+  ): Promise<TranscriptionResult>;
+  /**
+   * Builds a TLDR from an already transcribed text. Optional: providers
+   * that can't summarize leave chunked transcripts without a TLDR.
+   */
+  summarize?(
+    text: string,
+    options?: ProviderTranscribeOptions & { detail?: SummaryDetail },
+  ): Promise<string | null>;
+  /** Translates a transcript. Optional, like summarize. */
+  translate?(
+    text: string,
+    targetLanguage: string,
+    options?: ProviderTranscribeOptions,
+  ): Promise<string>;
+  /** Builds a topic digest of many messages. Optional, like summarize. */
+  digest?(
+    messages: DigestMessage[],
+    options?: ProviderTranscribeOptions,
+  ): Promise<ChatDigest>;
+}
+
+const providers: Record<string, TranscriptionProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [openAiProvider.name]: openAiProvider,
+};
+
+export function getTranscriptionProvider(name: string): TranscriptionProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown transcription provider "${name}". Available: ${Object.keys(providers).join(', ')}`,
+    );
+  }
+  return provider;
+}
+
+export function getTranscriptionProviderNames(): string[] {
+  return Object.keys(providers);
+}
@@ -0,0 +1,136 @@
+import type TelegramBot from 'node-telegram-bot-api';
+import type { Message } from 'node-telegram-bot-api';
+import { accessDecision } from './accessControl.js';
+import { ownerUserId } from './config.js';
+import { escapeHtml } from './formatter.js';
+import { localeFor, t } from './i18n.js';
+import {
+  getUsage,
+  quotaMinutes,
+  topConsumers,
+  type UsagePeriod,
+  type UsageSubject,
+  type UsageTotals,
+} from './usageStore.js';
+import { log } from './utils.js';
+
+const minutes = (seconds: number) => (seconds / 60).toFixed(1);
+
+function describeTotals(totals: UsageTotals, locale: string) {
+  return t(locale, 'usageTotals', {
+    transcriptions: totals.transcriptions,
+    minutes: minutes(totals.audioSeconds),
+    megabytes: (totals.bytes / 1024 / 1024).toFixed(1),
+    tokens: totals.inputTokens + totals.outputTokens,
+  });
+}
+
+function describeSubject(
+  title: string,
+  kind: 'user' | 'chat',
+  subject: UsageSubject,
+  locale: string,
+) {
+  const lines = [title];
+  for (const period of ['day', 'month'] as const) {
+    const totals = getUsage(subject, period);
+    const quota = quotaMinutes(kind, period);
+    const line = t(locale, period === 'day' ? 'usageToday' : 'usageThisMonth', {
+      totals: describeTotals(totals, locale),
+    });
+    lines.push(
+      quota
+        ? `${line} ${t(locale, 'usageQuota', { used: minutes(totals.audioSeconds), quota })}`
+        : line,
+    );
+  }
+  const models = Object.entries(getUsage(subject, 'month').models);
+  if (models.length) {
+    lines.push(
+      t(locale, 'usageModels', {
+        models: models
+          .map(([model, count]) => `${escapeHtml(model)} (${count})`)
+          .join(', '),
+      }),
+    );
+  }
+  return lines.join('\n');
+}
+
+function renderTopConsumers(period: UsagePeriod, locale: string) {
+  const lines = [t(locale, period === 'day' ? 'usageTopDay' : 'usageTopMonth')];
+  for (const kind of ['user', 'chat'] as const) {
+    const top = topConsumers(kind, period);
+    lines.push('', t(locale, kind === 'user' ? 'usageUsers' : 'usageChats'));
+    if (!top.length) lines.push(t(locale, 'usageNone'));
+    top.forEach(({ subject, name, totals }, i) => {
+      const label = name ? `${escapeHtml(name)} (${subject})` : subject;
+      lines.push(`${i + 1}. ${label}: ${describeTotals(totals, locale)}`);
+    });
+  }
+  return lines.join('\n');
+}
+
+async function handleUsageCommand(
+  bot: TelegramBot,
+  msg: Message,
+  args: string,
+) {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+  const locale = localeFor(msg);
+  const [option, value] = args.trim().toLowerCase().split(/\s+/);
+  let text: string;
+
+  if (option === 'top') {
+    if (!ownerUserId || userId !== ownerUserId) {
+      text = t(locale, 'usageOwnerOnly');
+    } else {
+      text = renderTopConsumers(value === 'day' ? 'day' : 'month', locale);
+    }
+  } else {
+    const sections: string[] = [];
+    if (userId) {
+      sections.push(
+        describeSubject(
+          t(locale, 'usageTitleUser'),
+          'user',
+          `user:${userId}`,
+          locale,
+        ),
+      );
+    }
+    if (msg.chat.type !== 'private' || !userId) {
+      sections.push(
+        describeSubject(
+          t(locale, 'usageTitleChat'),
+          'chat',
+          `chat:${chatId}`,
+          locale,
+        ),
+      );
+    }
+    if (ownerUserId && userId === ownerUserId) {
+      sections.push(t(locale, 'usageTopHint'));
+    }
+    text = sections.join('\n\n');
+  }
+
+  await bot.sendMessage(chatId, text, {
+    parse_mode: 'HTML',
+    reply_to_message_id: msg.message_id,
+  });
+}
+
+export function registerUsageHandlers(bot: TelegramBot) {
+  bot.onText(/^\/usage(?:@\w+)?(?:\s+(.*))?$/, async (msg, match) => {
+    if (accessDecision(msg.chat, msg.from?.id) !== 'allow') return;
+    try {
+      await handleUsageCommand(bot, msg, match?.[1] || '');
+    } catch (error) {
+      log(
+        `Failed to handle /usage in chat ${msg.chat.id}: ${(error as Error).message}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,186 @@
+import {
+  quotaChatDailyMinutes,
+  quotaChatMonthlyMinutes,
+  quotaUserDailyMinutes,
+  quotaUserMonthlyMinutes,
+} from './config.js';
+import { t } from './i18n.js';
+import { createJsonStore } from './jsonStore.js';
+
+export interface UsageTotals {
+  transcriptions: number;
+  audioSeconds: number;
+  bytes: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Transcriptions per model. */
+  models: Record<string, number>;
+}
+
+/** One finished transcription, attributed to a user and a chat. */
+export interface UsageEvent {
+  userId?: number;
+  userName?: string;
+  chatId: number;
+  chatTitle?: string;
+  audioSeconds: number;
+  bytes: number;
+  models: string[];
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsagePeriod = 'day' | 'month';
+export type UsageSubject = `user:${number}` | `chat:${number}`;
+
+interface UsageData {
+  /** "2025-06-01" (day) or "2025-06" (month) -> subject -> totals */
+  periods: Record<string, Record<string, UsageTotals>>;
+  /** Display names of subjects, for the owner's top list. */
+  names: Record<string, string>;
+}
+
+// Kept history: daily totals for ~2 months, monthly totals for a year.
+const DAYS_KEPT = 62;
+const MONTHS_KEPT = 13;
+
+const store = createJsonStore<UsageData>('usage.json', () => ({
+  periods: {},
+  names: {},
+}));
+
+function periodKey(period: UsagePeriod, date = new Date()) {
+  const iso = date.toISOString();
+  return period === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+const emptyTotals = (): UsageTotals => ({
+  transcriptions: 0,
+  audioSeconds: 0,
+  bytes: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  models: {},
+});
+
+function prune(now: Date) {
+  const dayCutoff = periodKey(
+    'day',
+    new Date(now.getTime() - DAYS_KEPT * 24 * 3600 * 1000),
+  );
+  const monthCutoff = new Date(now);
+  monthCutoff.setUTCMonth(monthCutoff.getUTCMonth() - MONTHS_KEPT);
+  const monthCutoffKey = periodKey('month', monthCutoff);
+
+  for (const key of Object.keys(store.data.periods)) {
+    const isDay = key.length === 10;
+    if (key < (isDay ? dayCutoff : monthCutoffKey)) {
+      delete store.data.periods[key];
+    }
+  }
+}
+
+export function recordUsage(event: UsageEvent) {
+  const now = new Date();
+  const subjects: UsageSubject[] = [`chat:${event.chatId}`];
+  if (event.userId) subjects.push(`user:${event.userId}`);
+
+  for (const period of ['day', 'month'] as const) {
+    const key = periodKey(period, now);
+    const totalsBySubject = (store.data.periods[key] ||= {});
+    for (const subject of subjects) {
+      const totals = (totalsBySubject[subject] ||= emptyTotals());
+      totals.transcriptions++;
+      totals.audioSeconds += event.audioSeconds;
+      totals.bytes += event.bytes;
+      totals.inputTokens += event.inputTokens;
+      totals.outputTokens += event.outputTokens;
+      for (const model of event.models) {
+        totals.models[model] = (totals.models[model] || 0) + 1;
+      }
+    }
+  }
+  if (event.userName && event.userId) {
+    store.data.names[`user:${event.userId}`] = event.userName;
+  }
+  if (event.chatTitle) {
+    store.data.names[`chat:${event.chatId}`] = event.chatTitle;
+  }
+  prune(now);
+  store.save();
+}
+
+export function getUsage(
+  subject: UsageSubject,
+  period: UsagePeriod,
+): UsageTotals {
+  return store.data.periods[periodKey(period)]?.[subject] || emptyTotals();
+}
+
+/**
+ * Subjects of one kind with the most audio in the current period.
+ */
+export function topConsumers(
+  kind: 'user' | 'chat',
+  period: UsagePeriod,
+  limit = 10,
+): { subject: string; name?: string; totals: UsageTotals }[] {
+  return Object.entries(store.data.periods[periodKey(period)] || {})
+    .filter(([subject]) => subject.startsWith(`${kind}:`))
+    .sort(([, a], [, b]) => b.audioSeconds - a.audioSeconds)
+    .slice(0, limit)
+    .map(([subject, totals]) => ({
+      subject,
+      name: store.data.names[subject],
+      totals,
+    }));
+}
+
+/** Configured quotas in minutes; 0 means unlimited. */
+export function quotaMinutes(kind: 'user' | 'chat', period: UsagePeriod) {
+  if (kind === 'user') {
+    return period === 'day' ? quotaUserDailyMinutes : quotaUserMonthlyMinutes;
+  }
+  return period === 'day' ? quotaChatDailyMinutes : quotaChatMonthlyMinutes;
+}
+
+/**
+ * Checks whether `additionalSeconds` more audio fits in the daily and
+ * monthly quotas of the user and the chat. Returns a message for the
+ * user, in `locale`, if it doesn't.
+ */
+export function checkQuota(
+  userId: number | undefined,
+  chatId: number,
+  additionalSeconds = 0,
+  locale?: string,
+): string | null {
+  const subjects: ['user' | 'chat', UsageSubject][] = [
+    ['chat', `chat:${chatId}`],
+  ];
+  if (userId) subjects.unshift(['user', `user:${userId}`]);
+
+  for (const [kind, subject] of subjects) {
+    for (const period of ['day', 'month'] as const) {
+      const limitMinutes = quotaMinutes(kind, period);
+      if (!limitMinutes) continue;
+      const usedSeconds = getUsage(subject, period).audioSeconds;
+      if (usedSeconds + additionalSeconds > limitMinutes * 60) {
+        const left = Math.max(0, limitMinutes - usedSeconds / 60);
+        const key =
+          kind === 'user'
+            ? period === 'day'
+              ? 'quotaUserDay'
+              : 'quotaUserMonth'
+            : period === 'day'
+              ? 'quotaChatDay'
+              : 'quotaChatMonth';
+        return t(locale, key, {
+          limit: limitMinutes,
+          left: left.toFixed(1),
+        });
+      }
+    }
+  }
+  return null;
+}
@@ -1,32 +1,78 @@
 import type TelegramBot from 'node-telegram-bot-api';
+import { AsyncLocalStorage } from 'async_hooks';
 import ffmpeg from 'fluent-ffmpeg';
-import { writeFileSync, unlinkSync } from 'fs';
+import { unlinkSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
+import { logFormat, loudnessTargetLufs } from './config.js';
+import {
+  DecodeError,
+  DownloadError,
+  SilentAudioError,
+  retryDelayMs,
+  toBotError,
+  type ErrorKind,
+} from './errors.js';
+import { ffmpegSeconds, retriesTotal, timeAsync } from './metrics.js';
 
 // It's crucial to pass the bot instance to functions that need it,
 // rather than relying on a global instance, for better testability and modularity.
 
-export function log(msg: string) {
-  console.log(`[${new Date().toISOString()}] ${msg}`);
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Runs `fn` with fields (job ID, chat, user...) added to every log line
+ * written while it runs, including in async calls it makes.
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+export function log(msg: string, fields: LogFields = {}) {
+  const time = new Date().toISOString();
+  const all = { ...logContext.getStore(), ...fields };
+  const line =
+    logFormat === 'text'
+      ? `[${time}] ${msg}${Object.entries(all)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => ` ${key}=${value}`)
+          .join('')}`
+      : JSON.stringify({ time, level: 'info', msg, ...all });
+  console.log(line);
 }
 
+/**
+ * Runs `fn`, retrying failures as the retry policy of their error kind
+ * allows (see errors.ts), optionally only failures of some `kinds`.
+ * Throws the last failure as a BotError.
+ */
 export async function retry<T>(
   fn: () => Promise<T>,
-  retries = 3,
-  delay = 1000,
+  {
+    operation = 'other',
+    kinds,
+  }: { operation?: string; kinds?: ErrorKind[] } = {},
 ): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < retries; i++) {
+  for (let attempt = 1; ; attempt++) {
     try {
       return await fn();
     } catch (err) {
-      lastError = err;
-      log(`Retry ${i + 1}/${retries} failed: ${(err as Error).message}`);
+      const error = toBotError(err);
+      const delay =
+        kinds && !kinds.includes(error.kind)
+          ? null
+          : retryDelayMs(error, attempt);
+      log(`Attempt ${attempt} failed: ${error.message}`, {
+        operation,
+        errorKind: error.kind,
+      });
+      if (delay === null) throw error;
+      retriesTotal.inc({ operation, kind: error.kind });
       await new Promise((res) => setTimeout(res, delay));
     }
   }
-  throw lastError;
 }
 
 export async function downloadVoiceToBuffer(
@@ -37,165 +83,294 @@ export async function downloadVoiceToBuffer(
   const chunks: Buffer[] = [];
   return new Promise((resolve, reject) => {
     fileStream.on('data', (chunk) => chunks.push(chunk as Buffer));
-    fileStream.on('error', reject);
+    fileStream.on('error', (error: Error) => {
+      const classified = toBotError(error);
+      reject(
+        classified.kind === 'other'
+          ? new DownloadError(`Download failed: ${error.message}`, {
+              cause: error,
+            })
+          : classified,
+      );
+    });
     fileStream.on('end', () => resolve(Buffer.concat(chunks)));
   });
 }
 
 /**
- * Extracts audio from a video note (video circle) and returns it as an audio buffer.
- * Video notes are MP4 files, we extract the audio track for transcription.
+ * Extracts the audio track of a media file (video note, video, any audio
+ * format) as speech-friendly MP3: mono, 16kHz, 64kbps.
  */
+export function extractSpeechAudio(inputPath: string): Promise<Buffer> {
+  return timeAsync(ffmpegSeconds, { operation: 'extract' }, () =>
+    runSpeechExtraction(inputPath),
+  );
+}
 
-export async function extractAudioFromVideoNote(
-  bot: TelegramBot,
-  fileId: string,
-): Promise<Buffer> {
-  log('Downloading video note for audio extraction...');
+function runSpeechExtraction(inputPath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const audioChunks: Buffer[] = [];
+    let stderrOutput = '';
+
+    const command = ffmpeg(inputPath)
+      .noVideo() // Remove video stream
+      .audioChannels(1) // Mono audio
+      .audioFrequency(16000) // 16kHz sample rate (good for speech)
+      .audioBitrate('64k') // Lower bitrate for speech
+      .audioCodec('libmp3lame') // Convert to MP3 for compatibility
+      .format('mp3')
+      .outputOptions([
+        '-map',
+        '0:a?', // Map audio stream if it exists, don't fail if no audio
+        '-ac',
+        '1', // Force mono
+        '-ar',
+        '16000', // Force 16kHz sample rate
+        '-avoid_negative_ts',
+        'make_zero', // Handle timing issues
+      ])
+      .on('start', () => {
+        log('Extracting audio...');
+      })
+      .on('stderr', (stderrLine: string) => {
+        stderrOutput += stderrLine + '\n';
+        // Only log important errors, not all stderr output
+        if (
+          stderrLine.includes('Error') ||
+          stderrLine.includes('failed') ||
+          stderrLine.includes('Invalid')
+        ) {
+          log(`FFmpeg stderr: ${stderrLine}`);
+        }
+      })
+      .on('error', (err: Error) => {
+        log(`FFmpeg error during audio extraction: ${err.message}`);
+
+        // If no audio stream exists, reject with a specific error
+        if (
+          err.message.includes('does not contain any stream') ||
+          err.message.includes('No audio') ||
+          stderrOutput.includes('does not contain any stream')
+        ) {
+          reject(new SilentAudioError('Media does not contain audio stream'));
+        } else {
+          reject(new DecodeError(`Failed to extract audio: ${err.message}`));
+        }
+      })
+      .on('end', () => {
+        const audioBuffer = Buffer.concat(audioChunks);
+        log(
+          `Audio extraction completed (${(audioBuffer.length / 1024).toFixed(2)} KB)`,
+        );
+
+        // Check if we actually got audio data
+        if (audioBuffer.length < 1000) {
+          // Less than 1KB is suspicious
+          log(
+            `Warning: Extracted audio file is very small (${audioBuffer.length} bytes) - media may not contain audio or may be silent`,
+          );
+          reject(
+            new SilentAudioError(
+              'Extracted audio file is too small - media may not contain audio or may be silent',
+            ),
+          );
+          return;
+        }
+
+        resolve(audioBuffer);
+      });
 
-  // First download the video file
-  const videoBuffer = await downloadVoiceToBuffer(bot, fileId);
+    // Capture the output stream
+    const ffmpegStream = command.pipe();
 
-  log(
-    `Video note downloaded (${(videoBuffer.length / 1024).toFixed(2)} KB), extracting audio...`,
+    ffmpegStream.on('data', (chunk: Buffer) => {
+      audioChunks.push(chunk);
+    });
+
+    ffmpegStream.on('error', (err: Error) => {
+      log(`FFmpeg stream error: ${err.message}`);
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight,
+ * preserving the input order in the result.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    },
   );
+  await Promise.all(workers);
+  return results;
+}
+
+const extensionsByMimeType: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/wav': 'wav',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/opus': 'opus',
+  'audio/webm': 'webm',
+  'audio/amr': 'amr',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/x-matroska': 'mkv',
+};
 
-  // Create temporary file for the video (MP4 format needs seekable input)
-  const tempVideoPath = join(
+export function extensionForMimeType(mimeType: string) {
+  return extensionsByMimeType[mimeType] || 'bin';
+}
+
+export function createTempFilePath(prefix: string, extension: string) {
+  return join(
     tmpdir(),
-    `video_note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.mp4`,
+    `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${extension}`,
   );
+}
 
+export function removeTempFile(filePath: string) {
   try {
-    // Write video buffer to temporary file
-    writeFileSync(tempVideoPath, videoBuffer);
-
-    return new Promise((resolve, reject) => {
-      const audioChunks: Buffer[] = [];
-      let stderrOutput = '';
-
-      // More robust FFmpeg command for video notes using file input
-      const command = ffmpeg(tempVideoPath)
-        .noVideo() // Remove video stream
-        .audioChannels(1) // Mono audio
-        .audioFrequency(16000) // 16kHz sample rate (good for speech)
-        .audioBitrate('64k') // Lower bitrate for speech
-        .audioCodec('libmp3lame') // Convert to MP3 for compatibility
-        .format('mp3')
-        .outputOptions([
-          '-map',
-          '0:a?', // Map audio stream if it exists, don't fail if no audio
-          '-ac',
-          '1', // Force mono
-          '-ar',
-          '16000', // Force 16kHz sample rate
-          '-avoid_negative_ts',
-          'make_zero', // Handle timing issues
-        ])
-        .on('start', () => {
-          log('Extracting audio from video note...');
-        })
-        .on('stderr', (stderrLine: string) => {
-          stderrOutput += stderrLine + '\n';
-          // Only log important errors, not all stderr output
-          if (
-            stderrLine.includes('Error') ||
-            stderrLine.includes('failed') ||
-            stderrLine.includes('Invalid')
-          ) {
-            log(`FFmpeg stderr: ${stderrLine}`);
-          }
-        })
-        .on('error', (err: Error) => {
-          log(`FFmpeg error during audio extraction: ${err.message}`);
-
-          // Clean up temp file silently
-          try {
-            unlinkSync(tempVideoPath);
-          } catch (cleanupErr) {
-            log(
-              `Failed to cleanup temp file: ${(cleanupErr as Error).message}`,
-            );
-          }
-
-          // If no audio stream exists, reject with a specific error
-          if (
-            err.message.includes('does not contain any stream') ||
-            err.message.includes('No audio') ||
-            stderrOutput.includes('does not contain any stream')
-          ) {
-            reject(new Error('Video note does not contain audio stream'));
-          } else {
-            reject(
-              new Error(
-                `Failed to extract audio from video note: ${err.message}`,
-              ),
-            );
-          }
-        })
-        .on('end', () => {
-          const audioBuffer = Buffer.concat(audioChunks);
-          log(
-            `Audio extraction completed (${(audioBuffer.length / 1024).toFixed(2)} KB)`,
-          );
-
-          // Clean up temp file silently
-          try {
-            unlinkSync(tempVideoPath);
-          } catch (cleanupErr) {
-            log(
-              `Failed to cleanup temp file: ${(cleanupErr as Error).message}`,
-            );
-          }
-
-          // Check if we actually got audio data
-          if (audioBuffer.length < 1000) {
-            // Less than 1KB is suspicious
-            log(
-              `Warning: Extracted audio file is very small (${audioBuffer.length} bytes) - video note may not contain audio or may be silent`,
-            );
-            reject(
-              new Error(
-                'Extracted audio file is too small - video note may not contain audio or may be silent',
-              ),
-            );
-            return;
-          }
-
-          resolve(audioBuffer);
-        });
-
-      // Capture the output stream
-      const ffmpegStream = command.pipe();
-
-      ffmpegStream.on('data', (chunk: Buffer) => {
-        audioChunks.push(chunk);
-      });
+    unlinkSync(filePath);
+  } catch (cleanupErr) {
+    log(`Failed to cleanup temp file: ${(cleanupErr as Error).message}`);
+  }
+}
 
-      ffmpegStream.on('error', (err: Error) => {
-        log(`FFmpeg stream error: ${err.message}`);
+export interface MediaProbe {
+  /** ffprobe's container name(s), e.g. "ogg" or "mov,mp4,m4a,3gp,3g2,mj2". */
+  formatName: string;
+  durationSeconds: number;
+  /** Codec of the first audio stream, or null if there is none. */
+  audioCodec: string | null;
+  hasVideo: boolean;
+}
 
-        // Clean up temp file silently
-        try {
-          unlinkSync(tempVideoPath);
-        } catch (cleanupErr) {
-          log(`Failed to cleanup temp file: ${(cleanupErr as Error).message}`);
-        }
+/**
+ * Describes a media file using ffprobe.
+ */
+export function probeMedia(filePath: string): Promise<MediaProbe> {
+  return timeAsync(ffmpegSeconds, { operation: 'probe' }, () =>
+    runProbe(filePath),
+  );
+}
 
-        reject(err);
+function runProbe(filePath: string): Promise<MediaProbe> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) {
+        reject(new DecodeError(`FFprobe failed: ${(err as Error).message}`));
+        return;
+      }
+      const audio = data.streams.find((s) => s.codec_type === 'audio');
+      resolve({
+        formatName: data.format.format_name || '',
+        durationSeconds: Number(data.format.duration) || 0,
+        audioCodec: audio?.codec_name || null,
+        // Cover art in audio files shows up as a single-frame video stream
+        hasVideo: data.streams.some(
+          (s) => s.codec_type === 'video' && s.disposition?.attached_pic !== 1,
+        ),
       });
     });
-  } catch (error) {
-    // Clean up temp file if creation failed
-    try {
-      unlinkSync(tempVideoPath);
-    } catch (cleanupErr) {
-      // Ignore cleanup errors if file creation failed
+  });
+}
+
+/**
+ * Returns the duration of a media file in seconds using ffprobe.
+ */
+export async function probeDuration(filePath: string): Promise<number> {
+  return (await probeMedia(filePath)).durationSeconds;
+}
+
+/**
+ * Converts (a slice of) a media file to the same speech-friendly MP3 that
+ * extractSpeechAudio produces: mono, 16kHz, 64kbps. With
+ * `normalizeLoudness` the speech is brought to a steady -16 LUFS.
+ */
+export function convertToSpeechMp3(
+  inputPath: string,
+  range?: { startSeconds: number; durationSeconds: number },
+  { normalizeLoudness = false }: { normalizeLoudness?: boolean } = {},
+): Promise<Buffer> {
+  return timeAsync(ffmpegSeconds, { operation: 'convert' }, () =>
+    runConversion(inputPath, range, normalizeLoudness),
+  );
+}
+
+function runConversion(
+  inputPath: string,
+  range: { startSeconds: number; durationSeconds: number } | undefined,
+  normalizeLoudness: boolean,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const audioChunks: Buffer[] = [];
+    const command = ffmpeg(inputPath);
+    if (range) {
+      command
+        .setStartTime(range.startSeconds)
+        .setDuration(range.durationSeconds);
     }
+    if (normalizeLoudness) {
+      command.audioFilters(`loudnorm=I=${loudnessTargetLufs}:TP=-1.5:LRA=11`);
+    }
+    command
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioBitrate('64k')
+      .audioCodec('libmp3lame')
+      .format('mp3')
+      .outputOptions(['-map', '0:a?', '-avoid_negative_ts', 'make_zero'])
+      .on('error', (err: Error) => {
+        reject(new DecodeError(`FFmpeg conversion failed: ${err.message}`));
+      })
+      .on('end', () => resolve(Buffer.concat(audioChunks)));
 
-    throw new Error(
-      `Failed to create temporary file for video processing: ${(error as Error).message}`,
+    const ffmpegStream = command.pipe();
+    ffmpegStream.on('data', (chunk: Buffer) => audioChunks.push(chunk));
+    ffmpegStream.on('error', reject);
+  });
+}
+
+/**
+ * In groups, true for chat admins and the creator; in private chats the
+ * user owns the chat.
+ */
+export async function isChatAdmin(
+  bot: TelegramBot,
+  chat: TelegramBot.Chat,
+  userId: number | undefined,
+) {
+  if (chat.type === 'private') return true;
+  if (!userId) return false;
+  try {
+    const member = await bot.getChatMember(chat.id, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch (error) {
+    log(
+      `Failed to check admin rights of ${userId} in chat ${chat.id}: ${(error as Error).message}`,
     );
+    return false;
   }
 }
 